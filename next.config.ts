@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The OCR routes read these from node_modules by a runtime file name, which tracing cannot follow
+  outputFileTracingIncludes: {
+    '/api/tesseract/[file]': [
+      './node_modules/tesseract.js/dist/worker.min.js',
+      './node_modules/tesseract.js-core/tesseract-core*.wasm.js'
+    ],
+    '/api/tessdata/[file]': ['./node_modules/@tesseract.js-data/{eng,hin}/4.0.0_best_int/*.traineddata.gz']
+  }
 };
 
 export default nextConfig;
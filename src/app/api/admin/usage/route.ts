@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { getUsageReport } from '@/lib/server/usageLimits';
+
+// Today's chat and embedding usage per client, for operators holding ADMIN_TOKEN
+export async function GET(req: NextRequest) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return Response.json({ error: { code: 'not_configured', message: 'Set ADMIN_TOKEN to enable usage reports' } }, { status: 404 });
+  }
+  if (req.headers.get('authorization') !== `Bearer ${adminToken}`) {
+    return Response.json({ error: { code: 'unauthorized', message: 'A valid admin token is required' } }, { status: 401 });
+  }
+
+  return Response.json(await getUsageReport(), {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
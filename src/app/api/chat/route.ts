@@ -1,66 +1,186 @@
 import { NextRequest } from 'next/server';
+import {
+  CONTEXT_COMPACTED_EVENT,
+  ChatStreamEvent,
+  ChatUsage,
+  ContextCompactedEvent,
+  encodeChatEvent
+} from '@/lib/chatProtocol';
+import { buildSystemPrompt, getChatProfile } from '@/lib/server/profiles';
+import { getAnsweringModel, isChatApiConfigured, streamChatEvents } from '@/lib/server/providers';
+import { planContext, summarizeConversation } from '@/lib/server/contextBudget';
+import { parseChatRequest } from '@/lib/server/chatRequest';
+import { ChatRequestError, chatErrorStatus, toChatErrorInfo } from '@/lib/server/chatErrors';
+import { corsHeaders, isOriginAllowed } from '@/lib/server/cors';
+import { signMemory } from '@/lib/server/memorySignature';
+import { checkChatAllowance, getClientId, recordChatUsage } from '@/lib/server/usageLimits';
+import { estimateTokens } from '@/lib/tokens';
 
-const API_URL = process.env.OPENAI_API_URL || 'https://2g1twslqmeeugna2.ai-plugin.io/chat/completions';
-const API_KEY = process.env.OPENAI_API_KEY;
+// How long the provider may take to start answering before the request fails with `timeout`,
+// and how long a summarization may run before the history is trimmed instead
+const FIRST_EVENT_TIMEOUT_MS = Number(process.env.CHAT_TIMEOUT_MS) || 60000;
 
 export async function POST(req: NextRequest) {
+  const requestId = crypto.randomUUID();
+
   try {
-    if (!API_KEY) {
-      throw new Error('OpenAI API key not configured');
+    if (!isOriginAllowed(req.headers)) {
+      throw new ChatRequestError('origin_not_allowed', 'Requests from this origin are not allowed');
+    }
+    const clientId = getClientId(req.headers);
+    if (!isChatApiConfigured()) {
+      throw new ChatRequestError('not_configured', 'No chat provider is configured on the server');
     }
+    await checkChatAllowance(clientId);
 
-    const { messages } = await req.json();
+    const { messages, profileId, references, memory: previous } = await parseChatRequest(req);
 
-    // Create the request payload based on the API test results
-    const payload = {
-      model: 'gpt-3.5-turbo',
-      messages: messages,
-      stream: true, // Required - API doesn't support blocking mode
-      max_tokens: 1000,
-      temperature: 0.7
-    };
+    // Cancelled when the client disconnects or stops reading, so the provider stops generating too
+    const upstream = new AbortController();
+    req.signal.addEventListener('abort', () => upstream.abort());
 
-    // Make the request to EXCELLOR AI endpoint
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
+    const profile = getChatProfile(profileId);
+    if (!profile) {
+      throw new ChatRequestError('unknown_profile', `Unknown profile: ${profileId}`);
+    }
+
+    const plan = planContext({
+      model: profile.parameters.model,
+      maxTokens: profile.parameters.maxTokens,
+      systemPrompt: profile.systemPrompt,
+      references,
+      // Messages already folded into the rolling summary are not sent again
+      history: messages.slice(previous.coveredCount)
     });
 
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
+    let compaction: ContextCompactedEvent | null = null;
+    // Tokens spent on summarization are billed with the answer, in the quota and the client's ledger
+    let summaryUsage: ChatUsage | null = null;
+    if (plan.overflow.length > 0) {
+      let summary = previous.summary;
+      let summarized = true;
+      const summarizer = AbortSignal.any([upstream.signal, AbortSignal.timeout(FIRST_EVENT_TIMEOUT_MS)]);
+      try {
+        const result = await summarizeConversation(previous.summary, plan.overflow, profile.parameters.model, summarizer);
+        summary = result.summary;
+        summaryUsage = result.usage;
+      } catch (error) {
+        if (upstream.signal.aborted) throw error;
+        // Trimming alone still keeps the request inside the window
+        console.error(`[${requestId}] Summarization failed, trimming history instead:`, error);
+        summarized = false;
+      }
+      const coveredCount = previous.coveredCount + plan.overflow.length;
+      compaction = {
+        type: CONTEXT_COMPACTED_EVENT,
+        summary,
+        coveredCount,
+        signature: signMemory(summary, coveredCount),
+        droppedCount: plan.overflow.length,
+        summarized
+      };
     }
 
-    // Create a new ReadableStream to handle the SSE response
+    // A stalled provider is aborted; the flag tells that apart from a client cancellation
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      upstream.abort();
+    }, FIRST_EVENT_TIMEOUT_MS);
+
+    const chatMessages = [
+      { role: 'system' as const, content: buildSystemPrompt(profile, plan.references, compaction?.summary ?? previous.summary) },
+      ...plan.history
+    ];
+    const events = streamChatEvents({
+      model: profile.parameters.model,
+      messages: chatMessages,
+      maxTokens: profile.parameters.maxTokens,
+      temperature: profile.parameters.temperature
+    }, upstream.signal);
+
+    // Providers already speak our event protocol (see chatProtocol.ts)
+    const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = response.body?.getReader();
-        if (!reader) {
-          controller.close();
-          return;
-        }
+        const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeChatEvent(event)));
+        const cancelled = () => upstream.signal.aborted && !timedOut;
+        let usage: ChatUsage | null = null;
+        let usageSent = false;
+        let answer = '';
+        // Providers that report no usage are charged an estimate
+        const estimateUsage = (): ChatUsage => {
+          const promptTokens = chatMessages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+          const completionTokens = estimateTokens(answer);
+          return {
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            model: profile.parameters.model,
+            estimated: true
+          };
+        };
+        const withSummary = (answerUsage: ChatUsage | null): ChatUsage | null => {
+          if (!summaryUsage || !answerUsage) return answerUsage ?? summaryUsage;
+          return {
+            promptTokens: answerUsage.promptTokens + summaryUsage.promptTokens,
+            completionTokens: answerUsage.completionTokens + summaryUsage.completionTokens,
+            totalTokens: answerUsage.totalTokens + summaryUsage.totalTokens,
+            model: answerUsage.model,
+            ...(answerUsage.estimated || summaryUsage.estimated ? { estimated: true } : {})
+          };
+        };
+        // The client stops reading at `done` or `error`, so usage goes out just before either,
+        // including for failed answers that produced text
+        const sendUsage = () => {
+          if (usageSent) return;
+          usageSent = true;
+          usage ??= answer ? estimateUsage() : null;
+          const total = withSummary(usage);
+          if (total) send({ type: 'usage', ...total });
+        };
 
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) {
-              controller.close();
-              break;
-            }
+          // Tell the client about compaction before the answer starts
+          if (compaction) send(compaction);
 
-            // Forward the chunk as-is since it's already in the correct SSE format
-            controller.enqueue(value);
+          for await (const event of events) {
+            clearTimeout(timeout);
+            if (event.type === 'delta') answer += event.content;
+            if (cancelled()) break;
+            if (event.type === 'usage') {
+              usage = event;
+              continue;
+            }
+            if (event.type === 'done') {
+              usage ??= estimateUsage();
+              sendUsage();
+            }
+            if (event.type === 'error') sendUsage();
+            send(event.type === 'error' ? { ...event, requestId } : event);
           }
         } catch (error) {
-          console.error('Stream error:', error);
-          controller.error(error);
+          // Nobody is listening after a cancellation
+          if (cancelled()) return;
+          console.error(`[${requestId}] Stream error:`, error);
+          const info = timedOut
+            ? { code: 'timeout' as const, message: 'The model did not start answering in time', requestId }
+            : toChatErrorInfo(error, requestId);
+          sendUsage();
+          send({ type: 'error', ...info });
         } finally {
-          reader.releaseLock();
+          clearTimeout(timeout);
+          // Also covers a provider stream that ended without `done`
+          if (!cancelled()) sendUsage();
+          const tokens = withSummary(usage ?? (answer ? estimateUsage() : null))?.totalTokens ?? 0;
+          recordChatUsage(clientId, tokens).catch(error => console.error(`[${requestId}] Failed to record usage:`, error));
         }
+        if (!cancelled()) controller.close();
       },
+      cancel() {
+        clearTimeout(timeout);
+        upstream.abort();
+      }
     });
 
     // Return the stream response with proper headers
@@ -69,51 +189,33 @@ export async function POST(req: NextRequest) {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        'X-Request-Id': requestId,
+        'X-Chat-Model': getAnsweringModel(profile.parameters.model),
+        ...corsHeaders(req.headers),
       },
     });
   } catch (error) {
-    console.error('API Error:', error);
-
-    // Return error response in SSE format
-    const errorStream = new ReadableStream({
-      start(controller) {
-        const errorData = {
-          choices: [{
-            delta: {
-              content: 'Sorry, I encountered an error while processing your request. Please try again later.'
-            }
-          }]
-        };
-
-        const encoder = new TextEncoder();
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorData)}\n\n`));
-        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-        controller.close();
-      }
-    });
+    if (!(error instanceof ChatRequestError)) {
+      console.error(`[${requestId}] API Error:`, error);
+    }
 
-    return new Response(errorStream, {
-      status: 500,
+    // Failures before streaming starts are reported as JSON with a matching status
+    const info = toChatErrorInfo(error, requestId);
+    return Response.json({ error: info }, {
+      status: chatErrorStatus(info),
       headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
+        'X-Request-Id': requestId,
+        ...(info.retryAfter !== undefined ? { 'Retry-After': String(info.retryAfter) } : {}),
+        ...corsHeaders(req.headers),
       },
     });
   }
 }
 
 // Handle OPTIONS for CORS
-export async function OPTIONS() {
+export async function OPTIONS(req: NextRequest) {
   return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
+    status: isOriginAllowed(req.headers) ? 204 : 403,
+    headers: corsHeaders(req.headers),
   });
-}
\ No newline at end of file
+}
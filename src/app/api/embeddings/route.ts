@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import { getEmbeddingConfig } from '@/lib/server/embeddingConfig';
+import { ChatRequestError, chatErrorStatus } from '@/lib/server/chatErrors';
+import { corsHeaders, isOriginAllowed } from '@/lib/server/cors';
+import { checkEmbeddingAllowance, getClientId, recordEmbeddingUsage } from '@/lib/server/usageLimits';
+import { estimateTokens } from '@/lib/tokens';
+
+// Longest single input we forward; the models accept about 8k tokens
+const MAX_INPUT_LENGTH = 32000;
+
+function errorResponse(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+  return Response.json({ error: { code, message } }, { status, headers });
+}
+
+// Describe the configured embedding model so clients can tag and compare vectors
+export async function GET() {
+  const config = getEmbeddingConfig();
+
+  return Response.json({
+    configured: !!config.apiKey,
+    provider: config.provider,
+    model: config.model,
+    dimensions: config.dimensions,
+    maxBatchSize: config.maxBatchSize,
+    maxRequestCharacters: config.maxRequestCharacters
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const config = getEmbeddingConfig();
+  const cors = corsHeaders(req.headers);
+
+  // The server's API key pays for these requests, so they get the same guards as /api/chat
+  if (!isOriginAllowed(req.headers)) {
+    return errorResponse(403, 'origin_not_allowed', 'Requests from this origin are not allowed', cors);
+  }
+  if (!config.apiKey) {
+    return errorResponse(503, 'not_configured', 'Embedding API key not configured', cors);
+  }
+  let clientId: string;
+  try {
+    clientId = getClientId(req.headers);
+    await checkEmbeddingAllowance(clientId);
+  } catch (error) {
+    if (!(error instanceof ChatRequestError)) throw error;
+    return errorResponse(chatErrorStatus({ code: error.code, message: error.message }), error.code, error.message, {
+      ...cors,
+      ...(error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : {})
+    });
+  }
+
+  let input: unknown;
+  try {
+    ({ input } = await req.json());
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Request body must be JSON', cors);
+  }
+
+  if (!Array.isArray(input) || input.length === 0 || !input.every(item => typeof item === 'string' && item.trim())) {
+    return errorResponse(400, 'invalid_request', '"input" must be a non-empty array of non-empty strings', cors);
+  }
+  const inputs = input as string[];
+  if (inputs.length > config.maxBatchSize) {
+    return errorResponse(400, 'invalid_request', `At most ${config.maxBatchSize} inputs per request`, cors);
+  }
+  if (inputs.some(item => item.length > MAX_INPUT_LENGTH)) {
+    return errorResponse(400, 'invalid_request', `Inputs must be shorter than ${MAX_INPUT_LENGTH} characters`, cors);
+  }
+  if (inputs.reduce((sum, item) => sum + item.length, 0) > config.maxRequestCharacters) {
+    return errorResponse(400, 'invalid_request', `Inputs may total at most ${config.maxRequestCharacters} characters per request`, cors);
+  }
+
+  try {
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.provider === 'azure'
+          ? { 'api-key': config.apiKey }
+          : { 'Authorization': `Bearer ${config.apiKey}` })
+      },
+      body: JSON.stringify({
+        input: inputs,
+        // Azure picks the model from the deployment URL
+        ...(config.provider === 'openai' ? { model: config.model } : {}),
+        ...(config.requestDimensions ? { dimensions: config.requestDimensions } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Embedding API error:', response.status, errorText);
+
+      // Pass rate limits through so the client can back off; report other failures as a bad gateway
+      const retryAfter = response.headers.get('retry-after');
+      return errorResponse(
+        response.status === 429 ? 429 : response.status >= 500 ? 502 : response.status,
+        response.status === 429 ? 'rate_limited' : 'upstream_error',
+        `Embedding API error: ${response.status}`,
+        { ...cors, ...(retryAfter ? { 'Retry-After': retryAfter } : {}) }
+      );
+    }
+
+    const data = await response.json();
+
+    // Providers that report no usage are charged an estimate
+    const tokens = data.usage?.prompt_tokens ?? data.usage?.total_tokens
+      ?? inputs.reduce((sum, item) => sum + estimateTokens(item), 0);
+    recordEmbeddingUsage(clientId, tokens).catch(error => console.error('Failed to record embedding usage:', error));
+
+    if (!Array.isArray(data.data)) {
+      throw new Error('Invalid response format from embedding API');
+    }
+
+    const embeddings = data.data as Array<{ index: number; embedding: number[] }>;
+    for (const item of embeddings) {
+      if (!Array.isArray(item.embedding) || item.embedding.length !== config.dimensions) {
+        throw new Error(`Invalid embedding dimensions: expected ${config.dimensions}, got ${item.embedding?.length}`);
+      }
+    }
+
+    return Response.json({
+      model: config.model,
+      dimensions: config.dimensions,
+      data: embeddings
+        .sort((a, b) => a.index - b.index)
+        .map(item => ({ index: item.index, embedding: item.embedding })),
+      usage: data.usage
+    }, { headers: cors });
+  } catch (error) {
+    console.error('Embedding API Error:', error);
+    return errorResponse(502, 'upstream_error', error instanceof Error ? error.message : 'Embedding request failed', cors);
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: isOriginAllowed(req.headers) ? 204 : 403,
+    headers: corsHeaders(req.headers),
+  });
+}
@@ -0,0 +1,10 @@
+import { DEFAULT_CHAT_PROFILE_ID } from '@/lib/chatProfiles';
+import { listChatProfiles } from '@/lib/server/profiles';
+
+// List the chat profiles clients can select; prompts and model parameters are not exposed
+export async function GET() {
+  return Response.json({
+    profiles: listChatProfiles(),
+    defaultProfileId: DEFAULT_CHAT_PROFILE_ID
+  });
+}
@@ -0,0 +1,30 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// Language data bundled through the @tesseract.js-data packages; the integer models are smaller and faster
+const LANGUAGE_DATA_VARIANT = '4.0.0_best_int';
+const SUPPORTED_LANGUAGES = new Set(['eng', 'hin']);
+
+// Serve OCR language data to tesseract.js workers; the worker and engine come from /api/tesseract
+export async function GET(_req: Request, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const language = /^([a-z]+)\.traineddata\.gz$/.exec(file)?.[1];
+  if (!language || !SUPPORTED_LANGUAGES.has(language)) {
+    return Response.json({ error: { code: 'not_found', message: `No OCR language data named ${file}` } }, { status: 404 });
+  }
+
+  try {
+    const data = await readFile(path.join(
+      process.cwd(), 'node_modules', '@tesseract.js-data', language, LANGUAGE_DATA_VARIANT, file
+    ));
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to read OCR language data ${file}:`, error);
+    return Response.json({ error: { code: 'not_found', message: `OCR language data ${file} is not installed` } }, { status: 404 });
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { GET } from './route';
+import { GET as getLanguageData } from '../../tessdata/[file]/route';
+
+const request = (file: string) => [
+  new Request(`http://localhost/api/tesseract/${file}`),
+  { params: Promise.resolve({ file }) }
+] as const;
+
+describe('OCR asset routes', () => {
+  it('serve the worker, the core builds and the supported language data', async () => {
+    for (const file of ['worker.min.js', 'tesseract-core-simd-lstm.wasm.js']) {
+      const response = await GET(...request(file));
+      expect(response.status, file).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/javascript');
+    }
+
+    const data = await getLanguageData(...request('hin.traineddata.gz'));
+    expect(data.status).toBe(200);
+    expect(data.headers.get('content-type')).toBe('application/gzip');
+  });
+
+  it('refuse any file outside the allow-list', async () => {
+    for (const file of ['index.js', 'tesseract-core.wasm', '../package.json', '..%2Fpackage.json']) {
+      expect((await GET(...request(file))).status, file).toBe(404);
+    }
+    for (const file of ['fra.traineddata.gz', 'eng.traineddata', '../eng/4.0.0_best_int/eng.traineddata.gz']) {
+      expect((await getLanguageData(...request(file))).status, file).toBe(404);
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// The tesseract.js worker script and its WebAssembly builds; the worker picks the core build the browser supports
+const SCRIPT_PACKAGES: Record<string, string[]> = {
+  'worker.min.js': ['tesseract.js', 'dist'],
+  'tesseract-core.wasm.js': ['tesseract.js-core'],
+  'tesseract-core-lstm.wasm.js': ['tesseract.js-core'],
+  'tesseract-core-simd.wasm.js': ['tesseract.js-core'],
+  'tesseract-core-simd-lstm.wasm.js': ['tesseract.js-core'],
+  'tesseract-core-relaxedsimd.wasm.js': ['tesseract.js-core'],
+  'tesseract-core-relaxedsimd-lstm.wasm.js': ['tesseract.js-core']
+};
+
+// Serve the OCR worker and engine from the app, so OCR works offline and under a strict CSP
+export async function GET(_req: Request, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  const directory = SCRIPT_PACKAGES[file];
+  if (!directory) {
+    return Response.json({ error: { code: 'not_found', message: `No OCR script named ${file}` } }, { status: 404 });
+  }
+
+  try {
+    const script = await readFile(path.join(process.cwd(), 'node_modules', ...directory, file));
+    return new Response(new Uint8Array(script), {
+      headers: {
+        'Content-Type': 'text/javascript; charset=utf-8',
+        // Not immutable: the URL stays the same when tesseract.js is upgraded
+        'Cache-Control': 'public, max-age=86400'
+      }
+    });
+  } catch (error) {
+    console.error(`Failed to read OCR script ${file}:`, error);
+    return Response.json({ error: { code: 'not_found', message: `OCR script ${file} is not installed` } }, { status: 404 });
+  }
+}
@@ -1,19 +1,37 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Send, BookOpen, TrendingUp, Users, Brain, FileText, Search, MessageSquareX, Trash2, Menu, X, Plus, Settings, HelpCircle, Sparkles, Upload, Zap } from 'lucide-react';
+import { Fragment, useState, useRef, useEffect } from 'react';
+import { Send, Square, RefreshCw, AlertTriangle, Pencil, ChevronLeft, ChevronRight, BookOpen, TrendingUp, Users, Brain, FileText, Search, MessageSquareX, Trash2, Menu, X, Plus, Settings, HelpCircle, Sparkles, Upload, Zap, Undo2, BarChart3 } from 'lucide-react';
 import MarkdownRenderer from '@/components/MarkdownRenderer';
 import DocumentUpload from '@/components/DocumentUpload';
-import { searchSimilarChunks, DocumentChunk, clearAllDocuments } from '@/lib/vectorDatabase';
-import { ProcessedDocument } from '@/lib/documentProcessor';
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  ragContext?: DocumentChunk[];
-}
+import ConversationList from '@/components/ConversationList';
+import UsageDashboard from '@/components/UsageDashboard';
+import CitationPanel from '@/components/CitationPanel';
+import DocumentViewer from '@/components/DocumentViewer';
+import { searchSimilarChunks, DocumentChunk } from '@/lib/vectorDatabase';
+import { removeAllDocuments, removeDocument, undoRemoveDocument } from '@/lib/documentStore';
+import { useDocuments } from '@/hooks/useDocuments';
+import { formatHeadingPath } from '@/lib/chunking';
+import { formatChunkLocation } from '@/lib/documentProcessor';
+import { formatRetrievalScores } from '@/lib/rankFusion';
+import {
+  Message,
+  ConversationSummary,
+  newConversationId,
+  listConversations,
+  getConversationMessages,
+  saveConversation,
+  updateConversation,
+  deleteConversation
+} from '@/lib/conversations';
+import { ChatProfileInfo, ChatReference, DEFAULT_CHAT_PROFILE_ID, fetchChatProfiles } from '@/lib/chatProfiles';
+import { ChatErrorCode, ChatErrorInfo, ChatUsage, ConversationMemory, isRetryableChatError } from '@/lib/chatProtocol';
+import { ChatStreamError, streamChat } from '@/lib/chatStream';
+import { findUnmatchedCitations } from '@/lib/citations';
+import { recordUsage, UsageEntry } from '@/lib/usageLedger';
+import { estimateCost, formatCost } from '@/lib/usagePricing';
+import { estimateTokens } from '@/lib/tokens';
+import { forkConversation, getBranchCount, getBranchIndex, memoryBeforeFork, switchBranch } from '@/lib/messageBranches';
 
 // Client-side timestamp component to prevent hydration mismatches
 function ClientTimestamp({ timestamp, className }: { timestamp: Date; className?: string }) {
@@ -30,13 +48,47 @@ function ClientTimestamp({ timestamp, className }: { timestamp: Date; className?
   return <div className={className}>{timestamp.toLocaleTimeString()}</div>;
 }
 
-export default function ExcellorAI() {
-  const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: `Hello! 👋 This is **EXCELLOR AI** with **Document RAG Support**. I'm here to help you with:
+const WELCOME_MESSAGE_ID = '1';
+
+// The welcome message is UI only; the server adds the real system prompt.
+// Failed answers are left out, keeping any text that arrived before the failure.
+const isSentToModel = (message: Message) => message.id !== WELCOME_MESSAGE_ID && !(message.error && !message.content);
+
+// Index of the message at `position` in the history sent to the server, the index space of `coveredCount`
+function indexOfSentPosition(messages: Message[], position: number): number {
+  let seen = 0;
+  for (let index = 0; index < messages.length; index++) {
+    if (!isSentToModel(messages[index])) continue;
+    if (seen === position) return index;
+    seen++;
+  }
+  return -1;
+}
+
+// Finish reason recorded on answers the user stopped
+const STOPPED_FINISH_REASON = 'stopped';
+
+const CHAT_ERROR_TITLES: Record<ChatErrorCode, string> = {
+  invalid_request: 'The request was invalid',
+  unknown_profile: 'This chat profile no longer exists',
+  not_configured: 'The AI service is not configured',
+  origin_not_allowed: 'This site may not use the chat service',
+  quota_exceeded: 'Daily usage limit reached',
+  upstream_auth: 'The AI service rejected the server\'s credentials',
+  rate_limited: 'Too many requests',
+  upstream_unavailable: 'The AI service is unavailable',
+  upstream_error: 'The AI service returned an error',
+  timeout: 'The AI service took too long to respond',
+  stream_interrupted: 'The response was interrupted',
+  network_error: 'Connection problem',
+  internal_error: 'Something went wrong'
+};
+
+function createWelcomeMessage(): Message {
+  return {
+    id: WELCOME_MESSAGE_ID,
+    role: 'assistant',
+    content: `Hello! 👋 This is **EXCELLOR AI** with **Document RAG Support**. I'm here to help you with:
 
 ## 📚 UPSC Preparation Areas
 - **Polity & Governance** - Constitutional framework, institutions
@@ -49,7 +101,7 @@ export default function ExcellorAI() {
 \`\`\`markdown
 ✅ Real-time markdown support
 ✅ Code syntax highlighting
-✅ Document RAG (PDF, DOCX, TXT)
+✅ Document RAG (PDF, DOCX, EPUB, PPTX, XLSX, CSV, HTML, Markdown, TXT)
 ✅ Azure OpenAI embeddings (text-embedding-3-large)
 ✅ High-quality vector search
 ✅ Interactive chat experience
@@ -59,18 +111,40 @@ export default function ExcellorAI() {
 Upload your study materials and I'll reference them in my responses:
 - **PDF** - Study guides, previous year papers
 - **DOCX** - Notes, current affairs compilations
-- **TXT** - Quick reference materials
+- **EPUB** - Standard reference books, chapter by chapter
+- **PPTX** - Coaching slides, slide by slide
+- **XLSX / CSV** - Data tables such as budget and census figures
+- **HTML / Markdown / TXT** - Saved articles and quick reference materials
 
 > **Tip:** Upload documents first, then ask questions about their content for personalized responses!
 
 How would you like to start your UPSC preparation journey today?`,
-      timestamp: new Date()
-    }
-  ]);
+    timestamp: new Date()
+  };
+}
+
+export default function ExcellorAI() {
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage()]);
+  const [conversationId, setConversationId] = useState(() => newConversationId());
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [profiles, setProfiles] = useState<ChatProfileInfo[]>([]);
+  const [profileId, setProfileId] = useState(DEFAULT_CHAT_PROFILE_ID);
+  const [memory, setMemory] = useState<ConversationMemory | null>(null);
+  // Messages as last loaded or saved, so opening a conversation does not re-save it
+  const savedMessagesRef = useRef<Message[]>(messages);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [documents, setDocuments] = useState<ProcessedDocument[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const { documents, pendingDeletions } = useDocuments();
   const [showDocumentPanel, setShowDocumentPanel] = useState(false);
+  const [showUsagePanel, setShowUsagePanel] = useState(false);
+  // Citation whose source chunk is open in the side panel
+  const [activeCitation, setActiveCitation] = useState<{ messageId: string; citation: number } | null>(null);
+  // Source chunk open in the document viewer
+  const [viewerChunk, setViewerChunk] = useState<DocumentChunk | null>(null);
   const [ragEnabled, setRagEnabled] = useState(true);
   const [showClearChatConfirm, setShowClearChatConfirm] = useState(false);
   const [showClearDocsConfirm, setShowClearDocsConfirm] = useState(false);
@@ -81,49 +155,75 @@ How would you like to start your UPSC preparation journey today?`,
   };
 
   const clearChat = () => {
-    setMessages([
-      {
-        id: '1',
-        role: 'assistant',
-        content: `Hello! 👋 This is **EXCELLOR AI** with **Document RAG Support**. I'm here to help you with:
+    const welcome = [createWelcomeMessage()];
+    savedMessagesRef.current = welcome;
+    setMessages(welcome);
+    setConversationId(newConversationId());
+    setMemory(null);
+    setInput('');
+    setShowClearChatConfirm(false);
+  };
 
-## 📚 UPSC Preparation Areas
-- **Polity & Governance** - Constitutional framework, institutions
-- **History** - Ancient, Medieval & Modern Indian History
-- **Geography** - Physical & Human Geography
-- **Economics** - Indian Economy, Development issues
-- **Current Affairs** - Daily updates and analysis
+  const refreshConversations = async () => {
+    setConversations(await listConversations());
+  };
 
-## 🔥 Advanced Features
-\`\`\`markdown
-✅ Real-time markdown support
-✅ Code syntax highlighting
-✅ Document RAG (PDF, DOCX, TXT)
-✅ Azure OpenAI embeddings (text-embedding-3-large)
-✅ High-quality vector search
-✅ Interactive chat experience
-\`\`\`
+  const selectConversation = async (id: string) => {
+    if (isLoading) return;
+    try {
+      const history = [createWelcomeMessage(), ...await getConversationMessages(id)];
+      savedMessagesRef.current = history;
+      setMessages(history);
+      setConversationId(id);
+      const summary = conversations.find(conversation => conversation.id === id);
+      setProfileId(summary?.profileId ?? DEFAULT_CHAT_PROFILE_ID);
+      setMemory(summary?.memory ?? null);
+      setSidebarOpen(false);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+    }
+  };
 
-## 📄 Document RAG
-Upload your study materials and I'll reference them in my responses:
-- **PDF** - Study guides, previous year papers
-- **DOCX** - Notes, current affairs compilations
-- **TXT** - Quick reference materials
+  const handleRenameConversation = async (id: string, title: string) => {
+    try {
+      await updateConversation(id, { title });
+      await refreshConversations();
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+    }
+  };
 
-> **Tip:** Upload documents first, then ask questions about their content for personalized responses!
+  const handleTogglePin = async (conversation: ConversationSummary) => {
+    try {
+      await updateConversation(conversation.id, { pinned: !conversation.pinned });
+      await refreshConversations();
+    } catch (error) {
+      console.error('Error pinning conversation:', error);
+    }
+  };
 
-How would you like to start your UPSC preparation journey today?`,
-        timestamp: new Date()
-      }
-    ]);
-    setInput('');
-    setShowClearChatConfirm(false);
+  const handleToggleArchive = async (conversation: ConversationSummary) => {
+    try {
+      await updateConversation(conversation.id, { archived: !conversation.archived });
+      await refreshConversations();
+    } catch (error) {
+      console.error('Error archiving conversation:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      if (id === conversationId) clearChat();
+      await refreshConversations();
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
   };
 
   const clearDocuments = async () => {
     try {
-      await clearAllDocuments();
-      setDocuments([]);
+      await removeAllDocuments();
       setShowClearDocsConfirm(false);
       // Show success message briefly
       const successMessage = {
@@ -145,137 +245,268 @@ How would you like to start your UPSC preparation journey today?`,
     }
   };
 
+  // Chunks saved before search results carried their document id are matched by file name,
+  // as long as no other document shares it
+  const findChunkDocument = (chunk: DocumentChunk) => {
+    if (chunk.documentId) return documents.find(doc => doc.id === chunk.documentId);
+    const named = documents.filter(doc => doc.name === chunk.metadata.source);
+    return named.length === 1 ? named[0] : undefined;
+  };
+
   const handleDeleteDocument = async (documentId: string) => {
-    setDocuments(prev => prev.filter(doc => doc.id !== documentId));
-    // You may want to also remove from vector database here
-    // await removeDocumentFromVectorDB(documentId);
+    try {
+      await removeDocument(documentId);
+    } catch (error) {
+      console.error('Error deleting document:', error);
+    }
   };
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
-  const sendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+  useEffect(() => {
+    listConversations().then(setConversations);
+    fetchChatProfiles()
+      .then(({ profiles }) => setProfiles(profiles))
+      .catch(error => console.error('Error loading chat profiles:', error));
+  }, []);
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: input,
+  // Save the conversation once a response has finished streaming
+  useEffect(() => {
+    if (isLoading || messages === savedMessagesRef.current) return;
+    const history = messages.filter(message => message.id !== WELCOME_MESSAGE_ID);
+    if (history.length === 0) return;
+
+    savedMessagesRef.current = messages;
+    saveConversation(conversationId, history, { profileId, memory })
+      .then(() => listConversations())
+      .then(setConversations)
+      .catch(error => console.error('Error saving conversation:', error));
+  }, [messages, isLoading, conversationId, profileId, memory]);
+
+  // Expose the vector index benchmark on the console during development
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'development') return;
+    import('@/lib/vectorIndexBenchmark').then(({ runVectorIndexBenchmark }) => {
+      (window as unknown as Record<string, unknown>).runVectorIndexBenchmark = runVectorIndexBenchmark;
+    });
+  }, []);
+
+  /**
+   * Stream an answer to the last message of history. insert places the empty assistant
+   * message in the list; the answer then streams into it.
+   */
+  const streamReply = async (
+    history: Message[],
+    insert: (assistantMessage: Message) => void,
+    replyMemory: ConversationMemory | null
+  ) => {
+    const question = history[history.length - 1]?.content ?? '';
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+
+    const assistantMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: '',
       timestamp: new Date()
     };
+    const updateAssistant = (update: (message: Message) => Message) => setMessages(prev => prev.map(msg =>
+      msg.id === assistantMessage.id ? update(msg) : msg
+    ));
 
-    setMessages(prev => [...prev, userMessage]);
-    const currentInput = input;
-    setInput('');
-    setIsLoading(true);
+    // Tracked as the answer streams so stopped and failed answers are recorded too
+    let model = '';
+    let promptTokens = 0;
+    let answer = '';
+    let reportedUsage: ChatUsage | undefined;
+    let referencedDocuments: UsageEntry['referencedDocuments'];
+    const recordReplyUsage = (usage: ChatUsage) => {
+      updateAssistant(msg => ({ ...msg, usage }));
+      recordUsage({
+        kind: 'chat',
+        model: usage.model ?? '',
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        estimated: !!usage.estimated,
+        conversationId,
+        messageId: assistantMessage.id,
+        referencedDocuments
+      });
+    };
+    // An answer cut short before its usage arrived is estimated from the text, as the server does
+    const usageSoFar = (): ChatUsage | null => {
+      if (reportedUsage) return reportedUsage;
+      if (!answer) return null;
+      const completionTokens = estimateTokens(answer);
+      return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, model, estimated: true };
+    };
 
     try {
       // Search for relevant document chunks if RAG is enabled and documents exist
       let ragContext: DocumentChunk[] = [];
-      if (ragEnabled && documents.length > 0) {
+      const searched = ragEnabled && documents.length > 0;
+      if (searched) {
         try {
-          ragContext = await searchSimilarChunks(currentInput, 3);
+          ragContext = await searchSimilarChunks(question, 3);
           console.log(`Found ${ragContext.length} relevant document chunks`);
         } catch (error) {
           console.warn('RAG search failed, continuing without context:', error);
         }
       }
 
-      // Prepare messages with RAG context
-      let contextualMessages: Array<{ role: string; content: string }> = [...messages, userMessage].map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }));
-
-      // If we have RAG context, add it to the system prompt
-      if (ragContext.length > 0) {
-        const ragContent = ragContext.map((chunk, index) =>
-          `**Reference ${index + 1} (${chunk.metadata.source}):**\n${chunk.content}`
-        ).join('\n\n');
+      const conversation = history
+        .filter(isSentToModel)
+        .map(msg => ({
+          role: msg.role,
+          content: msg.content
+        }));
 
-        const ragSystemMessage = {
-          role: 'system' as const,
-          content: `You are EXCELLOR AI, a UPSC preparation assistant. Use the following document references to enhance your response when relevant:\n\n${ragContent}\n\nBe sure to cite sources when referencing the documents. If the documents don't contain relevant information, provide your general knowledge response.`
-        };
+      // The server adds the profile's system prompt and formats these references into it
+      const references: ChatReference[] = ragContext.map(chunk => ({
+        source: chunk.metadata.source,
+        content: chunk.content,
+        page: chunk.metadata.page,
+        pageEnd: chunk.metadata.pageEnd,
+        slide: chunk.metadata.slide,
+        slideEnd: chunk.metadata.slideEnd,
+        sheet: chunk.metadata.sheet,
+        chapter: chunk.metadata.chapter,
+        headingPath: chunk.metadata.headingPath
+      }));
+      promptTokens = [...conversation, ...references].reduce((sum, item) => sum + estimateTokens(item.content), 0);
+      const sources = new Map(ragContext
+        .filter(chunk => chunk.documentId)
+        .map(chunk => [chunk.documentId!, { documentId: chunk.documentId!, documentName: chunk.metadata.source }]));
+      referencedDocuments = sources.size > 0 ? Array.from(sources.values()) : undefined;
 
-        contextualMessages = [ragSystemMessage, ...contextualMessages];
-      }
+      // An empty list still marks the answer as grounded, so citations it invents are flagged
+      insert({ ...assistantMessage, ragContext: searched ? ragContext : undefined });
 
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const { finishReason, usage } = await streamChat({
+        profileId,
+        messages: conversation,
+        references,
+        memory: replyMemory
+      }, {
+        onModel: answeringModel => { model = answeringModel; },
+        onCompaction: event => setMemory({ summary: event.summary, coveredCount: event.coveredCount, signature: event.signature }),
+        onDelta: content => {
+          answer += content;
+          updateAssistant(msg => ({ ...msg, content: msg.content + content }));
         },
-        body: JSON.stringify({
-          messages: contextualMessages
-        })
-      });
+        onUsage: usage => { reportedUsage = usage; }
+      }, controller.signal);
 
-      if (!response.ok) {
-        throw new Error('Failed to get response');
+      if (finishReason && finishReason !== 'stop') {
+        updateAssistant(msg => ({ ...msg, finishReason }));
       }
+      if (usage) recordReplyUsage(usage);
+    } catch (error) {
+      const usage = usageSoFar();
+      if (usage) recordReplyUsage(usage);
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No reader available');
+      if (controller.signal.aborted) {
+        // Whatever arrived before the stop is kept
+        updateAssistant(msg => ({ ...msg, finishReason: STOPPED_FINISH_REASON }));
+        return;
       }
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: '',
-        timestamp: new Date(),
-        ragContext: ragContext.length > 0 ? ragContext : undefined
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              setIsLoading(false);
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                setMessages(prev => prev.map(msg =>
-                  msg.id === assistantMessage.id
-                    ? { ...msg, content: msg.content + content }
-                    : msg
-                ));
-              }
-            } catch {
-              // Ignore parsing errors for streaming data
-            }
-          }
-        }
-      }
-    } catch (error) {
       console.error('Error:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, I encountered an error while processing your request. Please try again.',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      const chatError: ChatErrorInfo = error instanceof ChatStreamError
+        ? error.info
+        : { code: 'internal_error', message: 'Something went wrong while sending your message.' };
+      setMessages(prev => prev.some(msg => msg.id === assistantMessage.id)
+        ? prev.map(msg => msg.id === assistantMessage.id ? { ...msg, error: chatError } : msg)
+        : [...prev, { ...assistantMessage, error: chatError }]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const sendMessage = async () => {
+    if (!input.trim() || isLoading) return;
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: input,
+      timestamp: new Date()
+    };
+
+    setMessages(prev => [...prev, userMessage]);
+    setInput('');
+
+    await streamReply([...messages, userMessage], assistantMessage => setMessages(prev => [...prev, assistantMessage]), memory);
+  };
+
+  const stopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const memoryBefore = (index: number) => memoryBeforeFork(messages, index, memory, isSentToModel);
+
+  // Where the rolling summary stops and verbatim history resumes
+  const summaryIndex = memory && memory.coveredCount > 0 ? indexOfSentPosition(messages, memory.coveredCount) : -1;
+
+  const regenerateResponse = async (index: number) => {
+    if (isLoading || messages[index]?.role !== 'assistant') return;
+
+    const forkMemory = memoryBefore(index);
+    setMemory(forkMemory);
+    await streamReply(
+      messages.slice(0, index),
+      assistantMessage => setMessages(prev => forkConversation(prev, index, assistantMessage)),
+      forkMemory
+    );
+  };
+
+  // Answer the same question again in place of a failed answer
+  const retryResponse = async (index: number) => {
+    if (isLoading || !messages[index]?.error) return;
+
+    const retryMemory = memoryBefore(index);
+    setMemory(retryMemory);
+    await streamReply(
+      messages.slice(0, index),
+      assistantMessage => setMessages(prev => [
+        ...prev.slice(0, index),
+        { ...assistantMessage, branches: prev[index]?.branches, branchIndex: prev[index]?.branchIndex }
+      ]),
+      retryMemory
+    );
+  };
+
+  const submitEdit = async () => {
+    if (!editingMessageId || isLoading) return;
+    const index = messages.findIndex(msg => msg.id === editingMessageId);
+    const content = editingContent.trim();
+    setEditingMessageId(null);
+    if (index === -1 || !content || content === messages[index].content) return;
+
+    const editedMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: new Date()
+    };
+    const forked = forkConversation(messages, index, editedMessage);
+    const forkMemory = memoryBefore(index);
+    setMessages(forked);
+    setMemory(forkMemory);
+
+    await streamReply(forked, assistantMessage => setMessages(prev => [...prev, assistantMessage]), forkMemory);
+  };
+
+  const selectBranch = (index: number, target: number) => {
+    if (isLoading) return;
+    setMemory(memoryBefore(index));
+    setMessages(prev => switchBranch(prev, index, target));
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -339,6 +570,20 @@ How would you like to start your UPSC preparation journey today?`,
             </button>
           </div>
 
+          {/* Conversations */}
+          <div className="px-4 pb-4">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 px-2">Conversations</h3>
+            <ConversationList
+              conversations={conversations}
+              activeId={conversationId}
+              onSelect={selectConversation}
+              onRename={handleRenameConversation}
+              onTogglePin={handleTogglePin}
+              onToggleArchive={handleToggleArchive}
+              onDelete={handleDeleteConversation}
+            />
+          </div>
+
           {/* Quick Actions */}
           <div className="px-4 pb-4">
             <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 px-2">Quick Start</h3>
@@ -428,6 +673,15 @@ How would you like to start your UPSC preparation journey today?`,
                 </button>
               </div>
 
+              {/* Usage */}
+              <button
+                onClick={() => setShowUsagePanel(!showUsagePanel)}
+                className="w-full flex items-center space-x-2 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-smooth text-gray-700 dark:text-gray-300 hover:scale-[1.02] active:scale-[0.98]"
+              >
+                <BarChart3 className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium">Usage &amp; Cost</span>
+              </button>
+
               {/* Clear Documents */}
               {documents.length > 0 && (
                 <button
@@ -462,6 +716,19 @@ How would you like to start your UPSC preparation journey today?`,
             </div>
 
             <div className="flex items-center space-x-2">
+              {profiles.length > 0 && (
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  disabled={isLoading}
+                  title={profiles.find(profile => profile.id === profileId)?.description}
+                  className="text-sm bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-gray-700 dark:text-gray-300"
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+              )}
               <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
                 <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
                 <span className="hidden sm:inline">Online</span>
@@ -474,10 +741,16 @@ How would you like to start your UPSC preparation journey today?`,
         {showDocumentPanel && (
           <div className="border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
             <div className="p-6">
-              <DocumentUpload
-                onDocumentsChange={setDocuments}
-                className="w-full"
-              />
+              <DocumentUpload className="w-full" />
+            </div>
+          </div>
+        )}
+
+        {/* Usage Panel */}
+        {showUsagePanel && (
+          <div className="border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 max-h-[60vh] overflow-y-auto">
+            <div className="p-6">
+              <UsageDashboard conversations={conversations} onClose={() => setShowUsagePanel(false)} className="w-full" />
             </div>
           </div>
         )}
@@ -518,80 +791,250 @@ How would you like to start your UPSC preparation journey today?`,
 
             {/* Chat Messages */}
             {messages.map((message, index) => (
-              <div
-                key={message.id}
-                className={`flex ${message.role === 'user' ? 'justify-end animate-slide-in-right' : 'justify-start animate-slide-in-left'}`}
-                style={{ animationDelay: `${index * 0.1}s` }}
-              >
-                <div className={`flex max-w-[85%] ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
-                  {/* Avatar */}
-                  <div className={`flex-shrink-0 ${message.role === 'user' ? 'ml-3' : 'mr-3'}`}>
-                    <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                      message.role === 'user'
-                        ? 'bg-gradient-to-r from-blue-600 to-purple-600'
-                        : 'bg-gradient-to-r from-gray-200 to-gray-300 dark:from-gray-600 dark:to-gray-700'
-                    }`}>
-                      {message.role === 'user' ? (
-                        <span className="text-white text-sm font-medium">U</span>
-                      ) : (
-                        <Brain className="w-5 h-5 text-gray-600 dark:text-gray-300" />
-                      )}
+              <Fragment key={message.id}>
+                {/* Marks where the rolling summary stops and verbatim history resumes */}
+                {memory && index === summaryIndex && (
+                  <details className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg px-4 py-2">
+                    <summary className="cursor-pointer">
+                      {memory.coveredCount} earlier message{memory.coveredCount !== 1 ? 's were' : ' was'} summarized to fit the context window
+                    </summary>
+                    <p className="mt-2 whitespace-pre-wrap">{memory.summary || 'No summary available; the earlier messages were trimmed.'}</p>
+                  </details>
+                )}
+                <div
+                  className={`flex ${message.role === 'user' ? 'justify-end animate-slide-in-right' : 'justify-start animate-slide-in-left'}`}
+                  style={{ animationDelay: `${index * 0.1}s` }}
+                >
+                  <div className={`flex max-w-[85%] ${message.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
+                    {/* Avatar */}
+                    <div className={`flex-shrink-0 ${message.role === 'user' ? 'ml-3' : 'mr-3'}`}>
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                        message.role === 'user'
+                          ? 'bg-gradient-to-r from-blue-600 to-purple-600'
+                          : 'bg-gradient-to-r from-gray-200 to-gray-300 dark:from-gray-600 dark:to-gray-700'
+                      }`}>
+                        {message.role === 'user' ? (
+                          <span className="text-white text-sm font-medium">U</span>
+                        ) : (
+                          <Brain className="w-5 h-5 text-gray-600 dark:text-gray-300" />
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Message Content */}
-                  <div className="flex-1 min-w-0">
-                    <div
-                      className={`rounded-2xl px-6 py-4 ${
-                        message.role === 'user'
-                          ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg'
-                          : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm'
-                      }`}
-                    >
-                      {message.role === 'assistant' ? (
-                        <>
-                          <MarkdownRenderer content={message.content} />
-
-                          {/* RAG Context */}
-                          {message.ragContext && message.ragContext.length > 0 && (
-                            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
-                              <div className="flex items-center space-x-2 mb-3">
-                                <div className="w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
-                                  <Search className="w-3 h-3 text-blue-600 dark:text-blue-400" />
+                    {/* Message Content */}
+                    <div className="flex-1 min-w-0">
+                      <div
+                        className={`rounded-2xl px-6 py-4 ${
+                          message.role === 'user'
+                            ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg'
+                            : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm'
+                        }`}
+                      >
+                        {message.role === 'assistant' ? (
+                          <>
+                            {(message.content || !message.error) && (
+                              <MarkdownRenderer
+                                content={message.content}
+                                citationCount={message.ragContext?.length}
+                                onCitationClick={citation => setActiveCitation({ messageId: message.id, citation })}
+                              />
+                            )}
+
+                            {message.error && (
+                              <div className={`${message.content ? 'mt-3 ' : ''}flex items-start space-x-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 px-4 py-3`}>
+                                <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5 text-red-500" />
+                                <div className="flex-1 min-w-0 text-sm">
+                                  <p className="font-medium text-red-700 dark:text-red-300">{CHAT_ERROR_TITLES[message.error.code] ?? CHAT_ERROR_TITLES.internal_error}</p>
+                                  <p className="mt-1 text-red-600 dark:text-red-400">
+                                    {message.error.message}
+                                    {message.error.retryAfter !== undefined && ` Try again in ${message.error.retryAfter} second${message.error.retryAfter !== 1 ? 's' : ''}.`}
+                                  </p>
+                                  {message.error.requestId && (
+                                    <p className="mt-1 text-xs font-mono text-red-400 dark:text-red-500">Request ID: {message.error.requestId}</p>
+                                  )}
                                 </div>
-                                <span className="text-sm font-medium text-blue-700 dark:text-blue-400">
-                                  Referenced Documents
-                                </span>
+                                {isRetryableChatError(message.error.code) && (
+                                  <button
+                                    onClick={() => retryResponse(index)}
+                                    disabled={isLoading}
+                                    className="flex-shrink-0 flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/60 disabled:opacity-50 transition-smooth"
+                                  >
+                                    <RefreshCw className="w-3.5 h-3.5" />
+                                    <span>Retry</span>
+                                  </button>
+                                )}
                               </div>
-                              <div className="space-y-2">
-                                {message.ragContext.map((chunk, idx) => (
-                                  <div key={idx} className="flex items-center space-x-2 text-sm">
-                                    <div className="w-1.5 h-1.5 bg-blue-500 rounded-full"></div>
-                                    <span className="text-gray-700 dark:text-gray-300 font-medium">{chunk.metadata.source}</span>
-                                    {chunk.metadata.page && (
-                                      <span className="text-gray-500 dark:text-gray-400">Page {chunk.metadata.page}</span>
-                                    )}
+                            )}
+
+                            {message.finishReason && (
+                              <p className="mt-3 text-xs text-amber-600 dark:text-amber-400">
+                                {message.finishReason === STOPPED_FINISH_REASON
+                                  ? 'You stopped this response.'
+                                  : message.finishReason === 'length'
+                                    ? 'The response was cut off at the length limit.'
+                                    : `The response stopped early (${message.finishReason}).`}
+                              </p>
+                            )}
+
+                            {message.ragContext && message.content && !(isLoading && index === messages.length - 1) && (() => {
+                              const unmatched = findUnmatchedCitations(message.content, message.ragContext.length);
+                              return unmatched.length > 0 && (
+                                <p className="mt-3 text-xs text-red-600 dark:text-red-400">
+                                  {unmatched.map(citation => `[${citation}]`).join(', ')} {unmatched.length === 1 ? 'does' : 'do'} not match {message.ragContext.length > 0
+                                    ? `any of the ${message.ragContext.length} sources this answer was given`
+                                    : 'any source; no document passages were found for this question'}.
+                                </p>
+                              );
+                            })()}
+
+                            {/* RAG Context */}
+                            {message.ragContext && message.ragContext.length > 0 && (
+                              <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-600">
+                                <div className="flex items-center space-x-2 mb-3">
+                                  <div className="w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+                                    <Search className="w-3 h-3 text-blue-600 dark:text-blue-400" />
                                   </div>
-                                ))}
+                                  <span className="text-sm font-medium text-blue-700 dark:text-blue-400">
+                                    Referenced Documents
+                                  </span>
+                                </div>
+                                <div className="space-y-2">
+                                  {message.ragContext.map((chunk, idx) => (
+                                    <div key={idx} className="flex items-center space-x-2 text-sm">
+                                      <button
+                                        onClick={() => setActiveCitation({ messageId: message.id, citation: idx + 1 })}
+                                        className="flex-shrink-0 px-1 rounded text-xs font-semibold text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                                        title="Show source text"
+                                      >
+                                        [{idx + 1}]
+                                      </button>
+                                      {findChunkDocument(chunk) ? (
+                                        <button
+                                          onClick={() => setViewerChunk(chunk)}
+                                          className="text-gray-700 dark:text-gray-300 font-medium hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                                          title="Open the document at this passage"
+                                        >
+                                          {chunk.metadata.source}
+                                        </button>
+                                      ) : (
+                                        <span className="text-gray-700 dark:text-gray-300 font-medium">{chunk.metadata.source}</span>
+                                      )}
+                                      {formatChunkLocation(chunk.metadata) && (
+                                        <span className="text-gray-500 dark:text-gray-400">
+                                          {formatChunkLocation(chunk.metadata)}
+                                        </span>
+                                      )}
+                                      {chunk.metadata.headingPath && (
+                                        <span className="text-gray-500 dark:text-gray-400 truncate" title={formatHeadingPath(chunk.metadata.headingPath)}>
+                                          {formatHeadingPath(chunk.metadata.headingPath)}
+                                        </span>
+                                      )}
+                                      {chunk.retrieval && (
+                                        <span className="ml-auto flex-shrink-0 text-xs font-mono text-gray-400 dark:text-gray-500" title="Reciprocal rank fusion of vector and BM25 keyword search">
+                                          {formatRetrievalScores(chunk.retrieval)}
+                                        </span>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
                               </div>
+                            )}
+                          </>
+                        ) : editingMessageId === message.id ? (
+                          <div className="space-y-2">
+                            <textarea
+                              value={editingContent}
+                              onChange={(e) => setEditingContent(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                  e.preventDefault();
+                                  submitEdit();
+                                } else if (e.key === 'Escape') {
+                                  setEditingMessageId(null);
+                                }
+                              }}
+                              className="w-full min-w-[16rem] resize-y rounded-lg bg-white/10 text-white placeholder-white/60 border border-white/30 px-3 py-2 focus:outline-none focus:border-white"
+                              rows={3}
+                              autoFocus
+                            />
+                            <div className="flex justify-end space-x-2 text-sm">
+                              <button
+                                onClick={() => setEditingMessageId(null)}
+                                className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-smooth"
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={submitEdit}
+                                disabled={!editingContent.trim()}
+                                className="px-3 py-1 rounded-lg bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50 transition-smooth"
+                              >
+                                Save & send
+                              </button>
                             </div>
-                          )}
-                        </>
-                      ) : (
-                        <div className="whitespace-pre-wrap text-white">{message.content}</div>
-                      )}
-                    </div>
+                          </div>
+                        ) : (
+                          <div className="whitespace-pre-wrap text-white">{message.content}</div>
+                        )}
+                      </div>
 
-                    {/* Timestamp */}
-                    <ClientTimestamp
-                      timestamp={message.timestamp}
-                      className={`text-xs mt-2 ${
-                        message.role === 'user' ? 'text-right text-gray-500' : 'text-gray-500'
-                      }`}
-                    />
+                      {/* Timestamp, alternative branches and message actions */}
+                      <div className={`flex items-center mt-2 space-x-3 text-xs text-gray-500 ${
+                        message.role === 'user' ? 'justify-end' : 'justify-start'
+                      }`}>
+                        <ClientTimestamp timestamp={message.timestamp} />
+                        {message.usage && (
+                          <span title={`${message.usage.promptTokens.toLocaleString()} prompt + ${message.usage.completionTokens.toLocaleString()} completion tokens${message.usage.estimated ? ' (estimated)' : ''}`}>
+                            {message.usage.estimated ? '~' : ''}{message.usage.totalTokens.toLocaleString()} tokens • {formatCost(estimateCost(message.usage.model ?? '', message.usage.promptTokens, message.usage.completionTokens))}
+                          </span>
+                        )}
+                        {getBranchCount(message) > 1 && (
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() => selectBranch(index, getBranchIndex(message) - 1)}
+                              disabled={isLoading || getBranchIndex(message) === 0}
+                              className="p-0.5 rounded hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-40"
+                              title="Previous version"
+                            >
+                              <ChevronLeft className="w-3.5 h-3.5" />
+                            </button>
+                            <span>{getBranchIndex(message) + 1} / {getBranchCount(message)}</span>
+                            <button
+                              onClick={() => selectBranch(index, getBranchIndex(message) + 1)}
+                              disabled={isLoading || getBranchIndex(message) === getBranchCount(message) - 1}
+                              className="p-0.5 rounded hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-40"
+                              title="Next version"
+                            >
+                              <ChevronRight className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                        {!isLoading && message.role === 'user' && editingMessageId !== message.id && (
+                          <button
+                            onClick={() => {
+                              setEditingMessageId(message.id);
+                              setEditingContent(message.content);
+                            }}
+                            className="p-0.5 rounded hover:text-gray-700 dark:hover:text-gray-300"
+                            title="Edit and resend"
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        {!isLoading && message.role === 'assistant' && !message.error && message.id !== WELCOME_MESSAGE_ID && messages[index - 1]?.role === 'user' && (
+                          <button
+                            onClick={() => regenerateResponse(index)}
+                            className="p-0.5 rounded hover:text-gray-700 dark:hover:text-gray-300"
+                            title="Regenerate response"
+                          >
+                            <RefreshCw className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
                   </div>
                 </div>
-              </div>
+              </Fragment>
             ))}
 
             {/* Loading Indicator */}
@@ -637,13 +1080,23 @@ How would you like to start your UPSC preparation journey today?`,
                   minHeight: '56px'
                 }}
               />
-              <button
-                onClick={sendMessage}
-                disabled={!input.trim() || isLoading}
-                className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white rounded-xl transition-spring shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95 disabled:transform-none animate-pulse-glow disabled:animate-none"
-              >
-                <Send className="w-4 h-4" />
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={stopResponse}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 text-white rounded-xl transition-spring shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95"
+                  title="Stop generating"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={sendMessage}
+                  disabled={!input.trim()}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white rounded-xl transition-spring shadow-lg hover:shadow-xl transform hover:scale-105 active:scale-95 disabled:transform-none animate-pulse-glow disabled:animate-none"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -712,6 +1165,48 @@ How would you like to start your UPSC preparation journey today?`,
           </div>
         </div>
       )}
+
+      {/* Undo Document Deletion */}
+      {pendingDeletions.length > 0 && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 space-y-2 animate-slide-up">
+          {pendingDeletions.map(({ document }) => (
+            <div
+              key={document.id}
+              className="flex items-center space-x-3 px-4 py-2 bg-gray-900 dark:bg-gray-700 text-white rounded-lg shadow-xl"
+            >
+              <span className="text-sm truncate max-w-xs">Deleted {document.name}</span>
+              <button
+                onClick={() => undoRemoveDocument(document.id)}
+                className="flex items-center space-x-1 text-sm font-medium text-blue-300 hover:text-blue-200 transition-smooth"
+              >
+                <Undo2 className="w-4 h-4" />
+                <span>Undo</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Cited Source */}
+      {activeCitation && (() => {
+        const chunk = messages.find(msg => msg.id === activeCitation.messageId)?.ragContext?.[activeCitation.citation - 1];
+        return chunk && (
+          <CitationPanel
+            citation={activeCitation.citation}
+            chunk={chunk}
+            onClose={() => setActiveCitation(null)}
+            onOpenDocument={findChunkDocument(chunk) ? () => setViewerChunk(chunk) : undefined}
+          />
+        );
+      })()}
+
+      {/* Document Viewer */}
+      {viewerChunk && (() => {
+        const viewerDocument = findChunkDocument(viewerChunk);
+        return viewerDocument && (
+          <DocumentViewer document={viewerDocument} chunk={viewerChunk} onClose={() => setViewerChunk(null)} />
+        );
+      })()}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { ExternalLink, FileText, X } from 'lucide-react';
+import { DocumentChunk } from '@/lib/vectorDatabase';
+import { formatHeadingPath } from '@/lib/chunking';
+import { formatChunkLocation } from '@/lib/documentProcessor';
+
+interface CitationPanelProps {
+  citation: number;
+  chunk: DocumentChunk;
+  onClose: () => void;
+  // Opens the chunk in the document viewer, when its document is still stored
+  onOpenDocument?: () => void;
+}
+
+// Below this, OCR text often has misread words
+const LOW_OCR_CONFIDENCE = 70;
+
+/**
+ * Side panel showing the exact chunk text an answer cited
+ */
+const CitationPanel: React.FC<CitationPanelProps> = ({ citation, chunk, onClose, onOpenDocument }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const { source, headingPath, ocrConfidence } = chunk.metadata;
+  const location = formatChunkLocation(chunk.metadata);
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-40 w-full sm:w-96 flex flex-col bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl animate-slide-up">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-2 min-w-0">
+          <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/30 text-xs font-semibold text-blue-700 dark:text-blue-400">
+            [{citation}]
+          </span>
+          <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate">Source</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-smooth"
+          title="Close"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 space-y-1 border-b border-gray-200 dark:border-gray-700 text-sm">
+        <div className="flex items-center space-x-2">
+          <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className="font-medium text-gray-700 dark:text-gray-300 truncate" title={source}>{source}</span>
+        </div>
+        {location && (
+          <p className="text-gray-500 dark:text-gray-400">{location}</p>
+        )}
+        {headingPath && (
+          <p className="text-gray-500 dark:text-gray-400">{formatHeadingPath(headingPath)}</p>
+        )}
+        {ocrConfidence !== undefined && (
+          <p
+            className={ocrConfidence < LOW_OCR_CONFIDENCE ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}
+            title="This passage was read from a scanned page with OCR"
+          >
+            OCR confidence {ocrConfidence}%{ocrConfidence < LOW_OCR_CONFIDENCE && ' - check the text against the original'}
+          </p>
+        )}
+        {onOpenDocument && (
+          <button
+            onClick={onOpenDocument}
+            className="flex items-center space-x-1 pt-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <ExternalLink className="w-3 h-3" />
+            <span>Open in document</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-700 dark:text-gray-300">{chunk.content}</p>
+      </div>
+    </aside>
+  );
+};
+
+export default CitationPanel;
@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { MessageSquare, Search, Pin, PinOff, Pencil, Archive, ArchiveRestore, Trash2, Check, X } from 'lucide-react';
+import { ConversationSummary, searchConversations } from '@/lib/conversations';
+import { formatCost } from '@/lib/usagePricing';
+
+interface ConversationListProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  onSelect: (conversationId: string) => void;
+  onRename: (conversationId: string, title: string) => void;
+  onTogglePin: (conversation: ConversationSummary) => void;
+  onToggleArchive: (conversation: ConversationSummary) => void;
+  onDelete: (conversationId: string) => void;
+  className?: string;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onDelete,
+  className = ''
+}) => {
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<Set<string> | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  // Search titles and message text, debounced while typing
+  useEffect(() => {
+    if (!query.trim()) {
+      setMatches(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchConversations(query)
+        .then(result => !cancelled && setMatches(result))
+        .catch(error => console.error('Error searching conversations:', error));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, conversations]);
+
+  const archivedCount = conversations.filter(conversation => conversation.archived).length;
+  const visible = conversations.filter(conversation =>
+    (matches ? matches.has(conversation.id) : conversation.archived === showArchived)
+  );
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, editTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="relative">
+        <Search className="w-3.5 h-3.5 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conversations"
+          className="w-full pl-8 pr-2 py-1.5 text-sm bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="space-y-1 overflow-y-auto max-h-56">
+        {visible.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`flex items-center p-2 rounded-lg group transition-smooth ${
+              conversation.id === activeId
+                ? 'bg-blue-50 dark:bg-blue-900/20'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <div className="flex items-center space-x-1 flex-1 min-w-0">
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-2 py-0.5 text-sm bg-white dark:bg-gray-800 border border-blue-400 rounded text-gray-700 dark:text-gray-300 focus:outline-none"
+                />
+                <button onClick={commitRename} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600" title="Save">
+                  <Check className="w-3 h-3 text-green-600" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600" title="Cancel">
+                  <X className="w-3 h-3 text-gray-500" />
+                </button>
+              </div>
+            ) : confirmDeleteId === conversation.id ? (
+              <div className="flex items-center justify-between flex-1 min-w-0 text-sm">
+                <span className="text-red-600 dark:text-red-400 truncate">Delete this conversation?</span>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => {
+                      onDelete(conversation.id);
+                      setConfirmDeleteId(null);
+                    }}
+                    className="px-2 py-0.5 text-xs text-white bg-red-500 hover:bg-red-600 rounded"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(null)}
+                    className="px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex items-center space-x-2 flex-1 min-w-0 text-left"
+                >
+                  {conversation.pinned ? (
+                    <Pin className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                  ) : (
+                    <MessageSquare className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate">{conversation.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {conversation.messageCount} messages • {conversation.updatedAt.toLocaleDateString()}
+                      {conversation.usage && conversation.usage.tokens > 0 && ` • ${formatCost(conversation.usage.cost)}`}
+                      {conversation.archived ? ' • archived' : ''}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-smooth">
+                  <button
+                    onClick={() => onTogglePin(conversation)}
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title={conversation.pinned ? 'Unpin' : 'Pin'}
+                  >
+                    {conversation.pinned ? <PinOff className="w-3 h-3 text-gray-500" /> : <Pin className="w-3 h-3 text-gray-500" />}
+                  </button>
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3 h-3 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={() => onToggleArchive(conversation)}
+                    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    title={conversation.archived ? 'Unarchive' : 'Archive'}
+                  >
+                    {conversation.archived
+                      ? <ArchiveRestore className="w-3 h-3 text-gray-500" />
+                      : <Archive className="w-3 h-3 text-gray-500" />}
+                  </button>
+                  <button
+                    onClick={() => setConfirmDeleteId(conversation.id)}
+                    className="p-1 rounded hover:bg-red-100 dark:hover:bg-red-900/20"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3 h-3 text-red-500" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+
+        {visible.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-3">
+            {matches ? 'No matching conversations' : showArchived ? 'No archived conversations' : 'No saved conversations yet'}
+          </p>
+        )}
+      </div>
+
+      {!matches && (archivedCount > 0 || showArchived) && (
+        <button
+          onClick={() => setShowArchived(!showArchived)}
+          className="w-full text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 py-1"
+        >
+          {showArchived ? 'Back to conversations' : `Show archived (${archivedCount})`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConversationList;
@@ -1,12 +1,26 @@
 'use client';
 
 import React, { useState, useCallback, useRef } from 'react';
-import { Upload, File, X, AlertCircle, Loader, Trash2, FileText } from 'lucide-react';
-import { processDocument, validateFile, ProcessedDocument } from '@/lib/documentProcessor';
-import { storeDocument, getAllDocuments, deleteDocument, getStorageStats } from '@/lib/vectorDatabase';
+import { Upload, File, X, AlertCircle, Loader, Trash2, RefreshCw, HardDrive } from 'lucide-react';
+import { listDocumentExtractors, processDocument, validateFile } from '@/lib/documentProcessor';
+import {
+  storeDocument,
+  getStorageStats,
+  checkStorageForDocument,
+  getEmbeddingServiceInfo,
+  isDocumentStale,
+  reembedStaleDocuments,
+  EmbeddingServiceInfo,
+  StorageStats,
+  QUOTA_WARNING_RATIO
+} from '@/lib/vectorDatabase';
+import { formatBytes } from '@/lib/storageSize';
+import { isFallbackProvenance } from '@/lib/embeddingProvenance';
+import { ChunkingStrategyName, DEFAULT_CHUNKING_STRATEGY, listChunkingStrategies } from '@/lib/chunking';
+import { refreshDocuments, removeDocument } from '@/lib/documentStore';
+import { useDocuments } from '@/hooks/useDocuments';
 
 interface DocumentUploadProps {
-  onDocumentsChange?: (documents: ProcessedDocument[]) => void;
   className?: string;
 }
 
@@ -14,36 +28,41 @@ interface UploadState {
   uploading: boolean;
   processing: boolean;
   progress: string;
+  // Embedding progress from 0 to 100, when known
+  percent: number | null;
   error: string | null;
 }
 
-const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, className = '' }) => {
-  const [documents, setDocuments] = useState<ProcessedDocument[]>([]);
+const DocumentUpload: React.FC<DocumentUploadProps> = ({ className = '' }) => {
+  const { documents } = useDocuments();
   const [uploadState, setUploadState] = useState<UploadState>({
     uploading: false,
     processing: false,
     progress: '',
+    percent: null,
     error: null
   });
-  const [storageStats, setStorageStats] = useState({ documentCount: 0, chunkCount: 0, totalSize: '0KB' });
+  const [storageStats, setStorageStats] = useState<StorageStats | null>(null);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [showFreeSpace, setShowFreeSpace] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategyName>(DEFAULT_CHUNKING_STRATEGY);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [embeddingInfo, setEmbeddingInfo] = useState<EmbeddingServiceInfo | null>(null);
+  const staleCount = embeddingInfo
+    ? documents.filter(doc => isDocumentStale(doc, embeddingInfo.provenance)).length
+    : 0;
+  const quota = storageStats?.quota;
+  const quotaRatio = quota ? quota.usage / quota.quota : 0;
 
-  // Load documents on component mount
   React.useEffect(() => {
-    loadDocuments();
-    loadStorageStats();
+    getEmbeddingServiceInfo().then(setEmbeddingInfo);
   }, []);
 
-  const loadDocuments = async () => {
-    try {
-      const docs = await getAllDocuments();
-      setDocuments(docs);
-      onDocumentsChange?.(docs);
-    } catch (error) {
-      console.error('Error loading documents:', error);
-    }
-  };
+  // Sizes change whenever a document is added, re-embedded or deleted
+  React.useEffect(() => {
+    loadStorageStats();
+  }, [documents]);
 
   const loadStorageStats = async () => {
     try {
@@ -61,13 +80,14 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
       const file = files[i];
       await processFile(file);
     }
-  }, []);
+  }, [chunkingStrategy]);
 
   const processFile = async (file: File) => {
     setUploadState({
       uploading: true,
       processing: false,
       progress: `Validating ${file.name}...`,
+      percent: null,
       error: null
     });
 
@@ -85,24 +105,49 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
       }));
 
       // Process document
-      const processedDoc = await processDocument(file);
+      const processedDoc = await processDocument(file, chunkingStrategy, progress => {
+        setUploadState(prev => ({ ...prev, progress }));
+      });
+
+      // Refuse uploads that would not fit, before spending time on embeddings
+      const storageCheck = await checkStorageForDocument(processedDoc, file);
+      if (storageCheck.exceedsQuota && storageCheck.quota) {
+        setShowFreeSpace(true);
+        const available = Math.max(0, storageCheck.quota.quota - storageCheck.quota.usage);
+        throw new Error(
+          `${file.name} needs about ${formatBytes(storageCheck.requiredBytes)} but only ${formatBytes(available)} of browser storage is left. Delete documents to free up space.`
+        );
+      }
+      if (storageCheck.nearQuota && storageCheck.quota) {
+        const percentAfter = Math.round(((storageCheck.quota.usage + storageCheck.requiredBytes) / storageCheck.quota.quota) * 100);
+        setStorageWarning(`Browser storage will be about ${percentAfter}% full after ${file.name}`);
+      }
 
       setUploadState(prev => ({
         ...prev,
-        progress: `Generating embeddings for ${processedDoc.chunks.length} chunks...`
+        progress: `Generating embeddings for ${processedDoc.chunks.length} chunks...`,
+        percent: 0
       }));
 
       // Store document with embeddings
-      await storeDocument(processedDoc);
+      await storeDocument(processedDoc, {
+        original: file,
+        onProgress: ({ completed, total }) => {
+          setUploadState(prev => ({
+            ...prev,
+            progress: `Generating embeddings: ${completed}/${total} chunks`,
+            percent: total > 0 ? Math.round((completed / total) * 100) : 100
+          }));
+        }
+      });
 
       setUploadState(prev => ({
         ...prev,
-        progress: `Successfully processed ${file.name}`
+        progress: `Successfully processed ${file.name}`,
+        percent: null
       }));
 
-      // Reload documents and stats
-      await loadDocuments();
-      await loadStorageStats();
+      await refreshDocuments();
 
       // Clear success message after delay
       setTimeout(() => {
@@ -111,6 +156,7 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
           uploading: false,
           processing: false,
           progress: '',
+          percent: null,
           error: null
         }));
       }, 2000);
@@ -121,16 +167,53 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
         uploading: false,
         processing: false,
         progress: '',
+        percent: null,
         error: error instanceof Error ? error.message : 'Unknown error occurred'
       });
     }
   };
 
+  const handleReembed = async () => {
+    setUploadState({
+      uploading: true,
+      processing: true,
+      progress: 'Re-embedding stale documents...',
+      percent: 0,
+      error: null
+    });
+
+    try {
+      const { upgraded, failed } = await reembedStaleDocuments(({ completed, total, documentName }) => {
+        setUploadState(prev => ({
+          ...prev,
+          progress: `Re-embedding ${documentName}: ${completed}/${total} chunks`,
+          percent: total > 0 ? Math.round((completed / total) * 100) : 100
+        }));
+      });
+
+      await refreshDocuments();
+      setUploadState({
+        uploading: false,
+        processing: false,
+        progress: '',
+        percent: null,
+        error: failed > 0 ? `Upgraded ${upgraded} documents; ${failed} failed and keep their old vectors` : null
+      });
+    } catch (error) {
+      console.error('Error re-embedding documents:', error);
+      setUploadState({
+        uploading: false,
+        processing: false,
+        progress: '',
+        percent: null,
+        error: error instanceof Error ? error.message : 'Failed to re-embed documents'
+      });
+    }
+  };
+
   const handleDeleteDocument = async (documentId: string) => {
     try {
-      await deleteDocument(documentId);
-      await loadDocuments();
-      await loadStorageStats();
+      await removeDocument(documentId);
     } catch (error) {
       console.error('Error deleting document:', error);
       setUploadState(prev => ({
@@ -169,7 +252,17 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
       case 'docx':
         return '📝';
       case 'txt':
+      case 'md':
         return '📋';
+      case 'html':
+        return '🌐';
+      case 'epub':
+        return '📚';
+      case 'pptx':
+        return '📽️';
+      case 'csv':
+      case 'xlsx':
+        return '📊';
       default:
         return '📄';
     }
@@ -193,7 +286,7 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pdf,.docx,.txt"
+          accept={listDocumentExtractors().flatMap(extractor => extractor.extensions.map(extension => `.${extension}`)).join(',')}
           onChange={handleFileInputChange}
           className="hidden"
         />
@@ -205,7 +298,11 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
               <p className="text-sm text-gray-600 dark:text-gray-400">{uploadState.progress}</p>
               {uploadState.processing && (
                 <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-                  <div className="bg-blue-600 h-2 rounded-full animate-pulse w-1/2"></div>
+                  {uploadState.percent !== null ? (
+                    <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${uploadState.percent}%` }}></div>
+                  ) : (
+                    <div className="bg-blue-600 h-2 rounded-full animate-pulse w-1/2"></div>
+                  )}
                 </div>
               )}
             </div>
@@ -217,7 +314,7 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
                   Upload documents for RAG
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  PDF, DOCX, TXT files up to 10MB
+                  {listDocumentExtractors().map(extractor => extractor.label).join(', ')} files up to 10MB
                 </p>
               </div>
               <p className="text-xs text-gray-400">
@@ -228,6 +325,23 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
         </div>
       </div>
 
+      {/* Chunking Strategy */}
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <label htmlFor="chunking-strategy">Chunking strategy</label>
+        <select
+          id="chunking-strategy"
+          value={chunkingStrategy}
+          onChange={(e) => setChunkingStrategy(e.target.value)}
+          disabled={uploadState.uploading}
+          title={listChunkingStrategies().find(strategy => strategy.name === chunkingStrategy)?.description}
+          className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg px-2 py-1 text-gray-700 dark:text-gray-300"
+        >
+          {listChunkingStrategies().map(strategy => (
+            <option key={strategy.name} value={strategy.name}>{strategy.label}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Error Message */}
       {uploadState.error && (
         <div className="flex items-center space-x-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -242,19 +356,109 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
         </div>
       )}
 
+      {/* Storage Warning */}
+      {storageWarning && (
+        <div className="flex items-center space-x-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-amber-500" />
+          <span className="text-xs text-amber-700 dark:text-amber-400">{storageWarning}</span>
+          <button
+            onClick={() => setStorageWarning(null)}
+            className="ml-auto text-amber-500 hover:text-amber-700"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Storage Stats */}
       <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
         <div className="flex items-center space-x-4">
-          <span>📊 {storageStats.documentCount} documents</span>
-          <span>🔗 {storageStats.chunkCount} chunks</span>
-          <span>💾 {storageStats.totalSize}</span>
-        </div>
-        <div className="flex items-center space-x-1">
-          <FileText className="w-3 h-3" />
-          <span>Client-side RAG</span>
+          <span>📊 {storageStats?.documentCount ?? 0} documents</span>
+          <span>🔗 {storageStats?.chunkCount ?? 0} chunks</span>
+          <span
+            title={storageStats
+              ? `Documents ${formatBytes(storageStats.stores.documents)} • Vectors ${formatBytes(storageStats.stores.vectors)} • Keywords ${formatBytes(storageStats.stores.keywords)} • Files ${formatBytes(storageStats.stores.files)}`
+              : undefined}
+          >
+            💾 {formatBytes(storageStats?.totalBytes ?? 0)}
+          </span>
+          {quota && (
+            <span
+              className={quotaRatio >= QUOTA_WARNING_RATIO ? 'text-amber-600 dark:text-amber-400 font-medium' : ''}
+              title={`${formatBytes(quota.usage)} of ${formatBytes(quota.quota)} browser storage used`}
+            >
+              {Math.round(quotaRatio * 100)}% of quota
+            </span>
+          )}
         </div>
+        <button
+          onClick={() => setShowFreeSpace(prev => !prev)}
+          disabled={!storageStats?.documents.length}
+          className="flex items-center space-x-1 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-50"
+        >
+          <HardDrive className="w-3 h-3" />
+          <span>Free up space</span>
+        </button>
       </div>
 
+      {/* Largest Documents */}
+      {showFreeSpace && storageStats && storageStats.documents.length > 0 && (
+        <div className="space-y-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Largest documents</h4>
+            <button
+              onClick={() => setShowFreeSpace(false)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {storageStats.documents.map((usage) => (
+              <div key={usage.documentId} className="flex items-center space-x-3 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-700 dark:text-gray-300 truncate">{usage.name}</p>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1 mt-1">
+                    <div
+                      className="bg-blue-600 h-1 rounded-full"
+                      style={{ width: `${storageStats.totalBytes > 0 ? (usage.totalBytes / storageStats.totalBytes) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {formatBytes(usage.totalBytes)} • vectors {formatBytes(usage.vectorBytes)} • text {formatBytes(usage.documentBytes)}
+                    {usage.fileBytes > 0 && ` • file ${formatBytes(usage.fileBytes)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeleteDocument(usage.documentId)}
+                  className="p-1 hover:bg-red-100 dark:hover:bg-red-900/20 rounded"
+                  title="Delete document"
+                >
+                  <Trash2 className="w-3 h-3 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Stale Embeddings */}
+      {staleCount > 0 && embeddingInfo?.configured && (
+        <div className="flex items-center justify-between p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+          <span className="text-xs text-amber-700 dark:text-amber-400">
+            {staleCount} document{staleCount !== 1 ? 's use' : ' uses'} fallback or outdated vectors
+          </span>
+          <button
+            onClick={handleReembed}
+            disabled={uploadState.uploading}
+            className="flex items-center space-x-1 text-xs font-medium text-amber-700 dark:text-amber-400 hover:text-amber-900 disabled:opacity-50"
+          >
+            <RefreshCw className="w-3 h-3" />
+            <span>Re-embed</span>
+          </button>
+        </div>
+      )}
+
       {/* Document List */}
       {documents.length > 0 && (
         <div className="space-y-2">
@@ -273,8 +477,13 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({ onDocumentsChange, clas
                     <p className="text-sm font-medium text-gray-700 dark:text-gray-300 truncate">
                       {doc.name}
                     </p>
+                    {isFallbackProvenance(doc.embeddingProvenance) && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400" title="Embedded without the embeddings API; search quality is reduced">
+                        ⚠️ Fallback vectors
+                      </p>
+                    )}
                     <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {doc.chunks.length} chunks • {new Date(doc.createdAt).toLocaleDateString()}
+                      {doc.totalPages ? `${doc.totalPages} pages • ` : ''}{doc.chunks.length} chunks{doc.chunkingStrategy ? ` (${doc.chunkingStrategy})` : ''} • {new Date(doc.createdAt).toLocaleDateString()}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, FileText, Loader2, X } from 'lucide-react';
+import { DocumentChunk, DocumentType, ProcessedDocument, loadPdfJs } from '@/lib/documentProcessor';
+import { getOriginalFile } from '@/lib/vectorDatabase';
+import { findTextSpan, overlapsSpan, stripStructureMarkup, TextSpan } from '@/lib/textSpan';
+
+interface DocumentViewerProps {
+  document: ProcessedDocument;
+  // Chunk to jump to and highlight
+  chunk?: DocumentChunk;
+  onClose: () => void;
+}
+
+interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Rendering scale for PDF pages, relative to 72 dpi
+const PDF_SCALE = 1.5;
+
+const HIGHLIGHT_CLASS = 'bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm';
+
+/**
+ * Text with the highlighted span marked, scrolled into view once rendered
+ */
+const TextView = ({ text, span }: { text: string; span: TextSpan | null }) => {
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' });
+  }, [text, span]);
+
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed text-gray-700 dark:text-gray-300 p-6">
+      {span ? (
+        <>
+          {text.slice(0, span.start)}
+          <mark ref={markRef} className={HIGHLIGHT_CLASS}>{text.slice(span.start, span.end)}</mark>
+          {text.slice(span.end)}
+        </>
+      ) : text}
+    </div>
+  );
+};
+
+/**
+ * One PDF page on a canvas, with the chunk's text items outlined on top
+ */
+const PdfPageView = ({ pdf, pageNumber, chunk }: { pdf: PDFDocumentProxy; pageNumber: number; chunk?: DocumentChunk }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const renderPage = async () => {
+      const pdfjs = await loadPdfJs();
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_SCALE });
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      setSize({ width: viewport.width, height: viewport.height });
+      renderTask = page.render({ canvas, viewport });
+
+      const rects: HighlightRect[] = [];
+      const firstPage = chunk?.metadata.page;
+      const lastPage = chunk?.metadata.pageEnd ?? firstPage;
+      if (chunk && firstPage !== undefined && lastPage !== undefined && pageNumber >= firstPage && pageNumber <= lastPage) {
+        const items = (await page.getTextContent()).items.filter(item => 'str' in item);
+
+        // Join the items as extraction did, remembering where each one sits
+        let pageText = '';
+        const ranges = items.map(item => {
+          const start = pageText.length;
+          pageText += item.str + ' ';
+          return { start, end: start + item.str.length };
+        });
+
+        // Pages in the middle of a chunk are covered entirely
+        const span: TextSpan | null = pageNumber > firstPage && pageNumber < lastPage
+          ? { start: 0, end: pageText.length }
+          : findTextSpan(pageText, chunk.content);
+
+        if (span) {
+          items.forEach((item, index) => {
+            if (!item.str.trim() || !overlapsSpan(span, ranges[index].start, ranges[index].end)) return;
+            const [, , c, d, e, f] = pdfjs.Util.transform(viewport.transform, item.transform);
+            const height = Math.hypot(c, d);
+            rects.push({ left: e, top: f - height, width: item.width * viewport.scale, height });
+          });
+        }
+      }
+
+      await renderTask.promise;
+      if (!cancelled) setHighlights(rects);
+    };
+
+    renderPage().catch(error => {
+      if (!cancelled && error?.name !== 'RenderingCancelledException') {
+        console.error('Error rendering PDF page:', error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, chunk]);
+
+  const firstHighlightRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [highlights]);
+
+  return (
+    <div className="relative mx-auto my-4 shadow-md bg-white" style={{ width: size.width || undefined, height: size.height || undefined }}>
+      <canvas ref={canvasRef} className="block" />
+      {highlights.map((rect, index) => (
+        <div
+          key={index}
+          ref={index === 0 ? firstHighlightRef : undefined}
+          className="absolute bg-yellow-300/40 mix-blend-multiply pointer-events-none"
+          style={rect}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * DOCX rendered with docx-preview; the chunk's text is wrapped in <mark> elements afterwards
+ */
+const DocxView = ({ file, chunk }: { file: Blob; chunk?: DocumentChunk }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+
+    const render = async () => {
+      const { renderAsync } = await import('docx-preview');
+      container.innerHTML = '';
+      await renderAsync(file, container, undefined, { inWrapper: false, ignoreLastRenderedPageBreak: true });
+      if (cancelled || !chunk) return;
+
+      const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+      const nodes: Array<{ node: Text; start: number }> = [];
+      let text = '';
+      while (walker.nextNode()) {
+        const node = walker.currentNode as Text;
+        nodes.push({ node, start: text.length });
+        text += node.data;
+      }
+
+      const span = findTextSpan(text, stripStructureMarkup(chunk.content));
+      if (!span) return;
+
+      const marks: HTMLElement[] = [];
+      for (const { node, start } of nodes) {
+        const end = start + node.data.length;
+        if (!overlapsSpan(span, start, end)) continue;
+
+        const range = document.createRange();
+        range.setStart(node, Math.max(0, span.start - start));
+        range.setEnd(node, Math.min(node.data.length, span.end - start));
+        const mark = document.createElement('mark');
+        mark.className = HIGHLIGHT_CLASS;
+        range.surroundContents(mark);
+        marks.push(mark);
+      }
+      marks[0]?.scrollIntoView({ block: 'center' });
+    };
+
+    render().catch(error => console.error('Error rendering DOCX:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, chunk]);
+
+  return <div ref={containerRef} className="p-6 bg-white text-gray-900" />;
+};
+
+// Formats whose original file reads well as text; the rest are shown as their extracted text.
+// CSV is among the rest: its chunks are Markdown tables, which the raw file could never match.
+const PLAIN_TEXT_TYPES: DocumentType[] = ['txt', 'md'];
+
+/**
+ * In-app viewer for an uploaded document, opened at a chunk's page with its text highlighted.
+ * Documents uploaded before originals were kept are shown as their extracted text.
+ */
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ document, chunk, onClose }) => {
+  const [file, setFile] = useState<Blob | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(chunk?.metadata.page ?? 1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loadedPdf: PDFDocumentProxy | null = null;
+
+    const load = async () => {
+      const original = await getOriginalFile(document.id);
+      if (cancelled) return;
+
+      const extractedText = document.chunks.map(documentChunk => documentChunk.content).join('\n\n');
+      if (!original) {
+        setText(extractedText);
+      } else if (document.type === 'pdf') {
+        const pdfjs = await loadPdfJs();
+        loadedPdf = await pdfjs.getDocument({ data: await original.arrayBuffer(), verbosity: 0 }).promise;
+        if (!cancelled) setPdf(loadedPdf);
+      } else if (document.type === 'docx') {
+        setFile(original);
+      } else if (PLAIN_TEXT_TYPES.includes(document.type)) {
+        setText(await original.text());
+      } else {
+        setText(extractedText);
+      }
+    };
+
+    load()
+      .catch(error => {
+        console.error('Error opening document:', error);
+        if (!cancelled) setError(`Could not open ${document.name}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      loadedPdf?.destroy();
+    };
+  }, [document]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Markdown files may write headings, lists and tables differently from the extracted chunks
+  const textSpan = text !== null && chunk ? findTextSpan(text, chunk.content, { ignoreMarkup: document.type === 'md' }) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-full max-h-[90vh] flex flex-col bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2 min-w-0">
+            <FileText className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <h3 className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate" title={document.name}>{document.name}</h3>
+          </div>
+          <div className="flex items-center space-x-2">
+            {pdf && (
+              <div className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400">
+                <button
+                  onClick={() => setPageNumber(page => page - 1)}
+                  disabled={pageNumber <= 1}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                  title="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span>Page {pageNumber} / {pdf.numPages}</span>
+                <button
+                  onClick={() => setPageNumber(page => page + 1)}
+                  disabled={pageNumber >= pdf.numPages}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                  title="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-smooth"
+              title="Close"
+            >
+              <X className="w-4 h-4 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        {!loading && !error && text !== null && !document.hasOriginal && (
+          <p className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20">
+            The original file was not kept for this upload, so its extracted text is shown instead.
+          </p>
+        )}
+
+        <div className="flex-1 overflow-auto bg-gray-100 dark:bg-gray-900">
+          {loading ? (
+            <div className="flex items-center justify-center h-full text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading {document.name}...
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center h-full text-sm text-red-600 dark:text-red-400">{error}</div>
+          ) : pdf ? (
+            <PdfPageView pdf={pdf} pageNumber={Math.min(Math.max(pageNumber, 1), pdf.numPages)} chunk={chunk} />
+          ) : file ? (
+            <DocxView file={file} chunk={chunk} />
+          ) : (
+            <div className="bg-white dark:bg-gray-800 min-h-full">
+              <TextView text={text ?? ''} span={textSpan} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -5,12 +5,16 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import { Copy, Check, X, ZoomIn } from 'lucide-react';
+import { linkCitations, parseCitationHref } from '@/lib/citations';
 
 // All Prism imports will be handled dynamically to prevent SSR issues
 
 interface MarkdownRendererProps {
   content: string;
   className?: string;
+  // Number of references the answer was given; `[n]` markers become citations when set
+  citationCount?: number;
+  onCitationClick?: (citation: number) => void;
 }
 
 interface ImageModalProps {
@@ -102,7 +106,7 @@ const isImageUrl = (url: string): boolean => {
   return /\.(jpg|jpeg|png|gif|bmp|svg|webp)(\?.*)?$/i.test(url);
 };
 
-const MarkdownRenderer = ({ content, className = '' }: MarkdownRendererProps) => {
+const MarkdownRenderer = ({ content, className = '', citationCount, onCitationClick }: MarkdownRendererProps) => {
   const [selectedImage, setSelectedImage] = useState<{ src: string; alt: string } | null>(null);
   useEffect(() => {
     // Dynamically import and apply Prism highlighting
@@ -152,7 +156,9 @@ const MarkdownRenderer = ({ content, className = '' }: MarkdownRendererProps) =>
   }, [content]);
 
   // Filter out mermaid blocks from content
-  const filteredContent = filterMermaidBlocks(content);
+  const filteredContent = citationCount !== undefined
+    ? linkCitations(filterMermaidBlocks(content))
+    : filterMermaidBlocks(content);
 
   return (
     <>
@@ -326,6 +332,26 @@ const MarkdownRenderer = ({ content, className = '' }: MarkdownRendererProps) =>
 
           // Custom link styling with image detection
           a({ href, children }) {
+            // Citation markers rewritten by linkCitations
+            const citation = citationCount !== undefined ? parseCitationHref(href) : null;
+            if (citation !== null) {
+              const matched = citation >= 1 && citation <= citationCount!;
+              return (
+                <sup>
+                  <button
+                    type="button"
+                    onClick={() => matched && onCitationClick?.(citation)}
+                    className={matched
+                      ? 'px-0.5 font-semibold text-blue-600 dark:text-blue-400 hover:underline'
+                      : 'px-0.5 font-semibold text-red-500 line-through cursor-help'}
+                    title={matched ? `Show source ${citation}` : 'This citation does not match any provided source'}
+                  >
+                    [{citation}]
+                  </button>
+                </sup>
+              );
+            }
+
             // Check if the link points to an image
             if (href && isImageUrl(href)) {
               return (
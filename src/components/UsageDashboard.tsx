@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, FileText, MessageSquare, RefreshCw, Trash2, X } from 'lucide-react';
+import { ConversationSummary } from '@/lib/conversations';
+import { clearUsage, getUsageEntries, summarizeUsage, UsageSummary } from '@/lib/usageLedger';
+import { formatCost } from '@/lib/usagePricing';
+
+interface UsageDashboardProps {
+  conversations: ConversationSummary[];
+  onClose?: () => void;
+  className?: string;
+}
+
+// Days shown in the daily breakdown
+const DAYS_SHOWN = 14;
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ conversations, onClose, className = '' }) => {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    setSummary(summarizeUsage(await getUsageEntries()));
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleClear = async () => {
+    try {
+      await clearUsage();
+      setConfirmClear(false);
+      await loadUsage();
+    } catch (error) {
+      console.error('Error clearing usage:', error);
+    }
+  };
+
+  if (!summary) {
+    return <div className={`text-sm text-gray-500 dark:text-gray-400 ${className}`}>Loading usage...</div>;
+  }
+
+  const totalCost = summary.chat.cost + summary.embedding.cost;
+  const days = summary.byDay.slice(0, DAYS_SHOWN);
+  const maxDayCost = Math.max(...days.map(day => day.chat.cost + day.embedding.cost), 0);
+  const topConversations = Array.from(summary.byConversation.entries())
+    .map(([id, totals]) => ({
+      id,
+      title: conversations.find(conversation => conversation.id === id)?.title ?? 'Deleted conversation',
+      ...totals
+    }))
+    .sort((a, b) => b.cost - a.cost || b.tokens - a.tokens)
+    .slice(0, 10);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <BarChart3 className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Usage</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={loadUsage}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-smooth"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4 text-gray-500" />
+          </button>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-smooth"
+              title="Close"
+            >
+              <X className="w-4 h-4 text-gray-500" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: 'Total', tokens: summary.chat.tokens + summary.embedding.tokens, cost: totalCost },
+          { label: 'Chat', ...summary.chat },
+          { label: 'Embeddings', ...summary.embedding }
+        ].map(card => (
+          <div key={card.label} className="p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{card.label}</p>
+            <p className="text-lg font-semibold text-gray-800 dark:text-gray-200">{formatCost(card.cost)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{card.tokens.toLocaleString()} tokens</p>
+          </div>
+        ))}
+      </div>
+      {summary.estimatedCount > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {summary.estimatedCount} request{summary.estimatedCount !== 1 ? 's were' : ' was'} estimated because the provider reported no usage. Costs use list prices.
+        </p>
+      )}
+
+      {days.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No usage recorded yet</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {/* By day */}
+          <div className="space-y-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">By day</h4>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {days.map(day => {
+                const dayCost = day.chat.cost + day.embedding.cost;
+                return (
+                  <div key={day.day}>
+                    <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+                      <span>{day.day}</span>
+                      <span>{formatCost(dayCost)} • {(day.chat.tokens + day.embedding.tokens).toLocaleString()} tokens</span>
+                    </div>
+                    <div className="flex w-full h-1.5 mt-1 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div className="bg-purple-500 h-full" style={{ width: `${maxDayCost > 0 ? (day.chat.cost / maxDayCost) * 100 : 0}%` }} title={`Chat ${formatCost(day.chat.cost)}`} />
+                      <div className="bg-blue-500 h-full" style={{ width: `${maxDayCost > 0 ? (day.embedding.cost / maxDayCost) * 100 : 0}%` }} title={`Embeddings ${formatCost(day.embedding.cost)}`} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center space-x-3 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center"><span className="w-2 h-2 mr-1 rounded-full bg-purple-500" />Chat</span>
+              <span className="flex items-center"><span className="w-2 h-2 mr-1 rounded-full bg-blue-500" />Embeddings</span>
+            </div>
+          </div>
+
+          {/* By document and conversation */}
+          <div className="space-y-4">
+            {summary.byDocument.length > 0 && (
+              <div className="space-y-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">By document</h4>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {summary.byDocument.map(document => (
+                    <div key={document.documentId} className="flex items-center space-x-2 text-sm">
+                      <FileText className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                      <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">{document.documentName}</span>
+                      <span
+                        className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap"
+                        title={`Embeddings ${formatCost(document.cost - document.chat.cost)}, chat answers using it ${formatCost(document.chat.cost)}`}
+                      >
+                        {formatCost(document.cost)} • {Math.round(document.tokens).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {topConversations.length > 0 && (
+              <div className="space-y-2 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Chat by conversation</h4>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {topConversations.map(conversation => (
+                    <div key={conversation.id} className="flex items-center space-x-2 text-sm">
+                      <MessageSquare className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                      <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">{conversation.title}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {formatCost(conversation.cost)} • {conversation.tokens.toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Reset */}
+      {days.length > 0 && (
+        confirmClear ? (
+          <div className="flex items-center justify-end space-x-2 text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Delete the usage history?</span>
+            <button onClick={() => setConfirmClear(false)} className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">Cancel</button>
+            <button onClick={handleClear} className="px-3 py-1 rounded-lg bg-red-600 text-white hover:bg-red-700">Delete</button>
+          </div>
+        ) : (
+          <div className="flex justify-end">
+            <button
+              onClick={() => setConfirmClear(true)}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-red-600 transition-smooth"
+            >
+              <Trash2 className="w-3 h-3" />
+              <span>Reset usage history</span>
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
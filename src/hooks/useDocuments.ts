@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  DocumentStoreState,
+  getDocumentStoreState,
+  loadDocuments,
+  subscribeToDocuments
+} from '@/lib/documentStore';
+
+const SERVER_STATE: DocumentStoreState = { documents: [], pendingDeletions: [], loaded: false };
+
+/**
+ * Subscribe to the shared document list, loading it on first use
+ */
+export function useDocuments(): DocumentStoreState {
+  const state = useSyncExternalStore(subscribeToDocuments, getDocumentStoreState, () => SERVER_STATE);
+
+  useEffect(() => {
+    loadDocuments().catch(error => console.error('Error loading documents:', error));
+  }, []);
+
+  return state;
+}
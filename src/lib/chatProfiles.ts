@@ -0,0 +1,34 @@
+import type { ChunkLocation } from './chunkLocation';
+
+/**
+ * Public description of a chat profile; prompts and model parameters stay on the server
+ */
+export interface ChatProfileInfo {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * A retrieved document passage the server turns into prompt context
+ */
+export interface ChatReference extends ChunkLocation {
+  source: string;
+  content: string;
+  headingPath?: string[];
+}
+
+export const DEFAULT_CHAT_PROFILE_ID = 'general';
+
+const PROFILES_API_URL = '/api/profiles';
+
+/**
+ * Get the profiles the server offers
+ */
+export async function fetchChatProfiles(): Promise<{ profiles: ChatProfileInfo[]; defaultProfileId: string }> {
+  const response = await fetch(PROFILES_API_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to load chat profiles: ${response.status}`);
+  }
+  return response.json();
+}
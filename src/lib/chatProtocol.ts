@@ -0,0 +1,122 @@
+/**
+ * Event protocol of the /api/chat response stream.
+ *
+ * The route answers with `text/event-stream`. Every event is a single `data:` line holding
+ * one JSON object with a `type` field, followed by a blank line:
+ *
+ * - `context.compacted` - older turns were folded into the rolling summary (sent first, if at all)
+ * - `delta`             - the next piece of the answer text
+ * - `usage`             - token counts, estimated by the server if the provider gives none (sent before `done`)
+ * - `finish`            - why generation stopped: `stop`, `length`, `content_filter`, ...
+ * - `error`             - the request failed, with a ChatErrorCode; the stream ends after it
+ * - `done`              - the last event of every stream that ended normally
+ *
+ * Clients should treat a stream that closes without `done` or `error` as interrupted.
+ * Requests rejected before streaming starts get a JSON `{ error: ChatErrorInfo }` body instead,
+ * with a matching HTTP status. Every response carries an `X-Request-Id` header.
+ */
+
+/**
+ * Rolling memory of a conversation: a summary standing in for its first coveredCount messages
+ */
+export interface ConversationMemory {
+  summary: string;
+  coveredCount: number;
+  // Server signature over the summary; unsigned or altered summaries are ignored
+  signature?: string;
+}
+
+export const CONTEXT_COMPACTED_EVENT = 'context.compacted';
+
+/**
+ * Sent ahead of the response when older turns no longer fit the context window
+ */
+export interface ContextCompactedEvent extends ConversationMemory {
+  type: typeof CONTEXT_COMPACTED_EVENT;
+  // Turns folded into the summary by this request
+  droppedCount: number;
+  // False when summarization failed and the turns were only trimmed
+  summarized: boolean;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Model that produced the answer, for pricing
+  model?: string;
+  // Set when the provider reported nothing and the server counted tokens itself
+  estimated?: boolean;
+}
+
+export interface DeltaEvent {
+  type: 'delta';
+  content: string;
+}
+
+export interface UsageEvent extends ChatUsage {
+  type: 'usage';
+}
+
+export interface FinishEvent {
+  type: 'finish';
+  reason: string;
+}
+
+export type ChatErrorCode =
+  | 'invalid_request'      // the request body was malformed
+  | 'unknown_profile'      // no profile with the requested id
+  | 'not_configured'       // no chat provider has credentials
+  | 'origin_not_allowed'   // the calling site is not in ALLOWED_ORIGINS
+  | 'rate_limited'         // too many requests, here or at the provider; see retryAfter
+  | 'quota_exceeded'       // the client used up its daily token quota; see retryAfter
+  | 'upstream_auth'        // the provider rejected our credentials
+  | 'upstream_unavailable' // the provider is down or overloaded (5xx)
+  | 'upstream_error'       // the provider reported an error mid-stream
+  | 'timeout'              // the provider did not start answering in time
+  | 'stream_interrupted'   // the stream closed before it finished
+  | 'network_error'        // the browser could not reach the server
+  | 'internal_error';      // anything else
+
+const RETRYABLE_CHAT_ERRORS = new Set<ChatErrorCode>([
+  'rate_limited',
+  'upstream_unavailable',
+  'upstream_error',
+  'timeout',
+  'stream_interrupted',
+  'network_error',
+  'internal_error'
+]);
+
+export function isRetryableChatError(code: ChatErrorCode): boolean {
+  return RETRYABLE_CHAT_ERRORS.has(code);
+}
+
+/**
+ * What went wrong with a request; also the body of JSON error responses
+ */
+export interface ChatErrorInfo {
+  code: ChatErrorCode;
+  message: string;
+  // Seconds to wait before retrying, when the provider said so
+  retryAfter?: number;
+  // Quote this when reporting a problem; it appears in the server logs
+  requestId?: string;
+}
+
+export interface ChatErrorEvent extends ChatErrorInfo {
+  type: 'error';
+}
+
+export interface DoneEvent {
+  type: 'done';
+}
+
+export type ChatStreamEvent = ContextCompactedEvent | DeltaEvent | UsageEvent | FinishEvent | ChatErrorEvent | DoneEvent;
+
+/**
+ * Encode one protocol event as an SSE frame
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
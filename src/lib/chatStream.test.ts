@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatRequest, streamChat } from './chatStream';
+
+const request: ChatRequest = { profileId: 'default', messages: [{ role: 'user', content: 'Hi' }], references: [], memory: null };
+
+// Answer the next fetch with an event stream sent in the given pieces
+function respondWith(pieces: string[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    }
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, {
+    headers: { 'content-type': 'text/event-stream', 'x-request-id': 'req-1' }
+  })));
+}
+
+describe('streamChat', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('dispatches events split across network chunks and skips malformed ones', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respondWith([
+      'data: {"type":"delta","con',
+      'tent":"Article "}\r\n\r\ndata: not json\n\ndata: {"type":"delta","content":"21"}\n',
+      '\n: keep-alive\n\ndata: {"type":"usage","promptTokens":5,"completionTokens":2,"totalTokens":7}\n\n',
+      'data: {"type":"finish","reason":"length"}\n\ndata: {"type":"done"}\n\n'
+    ]);
+
+    const deltas: string[] = [];
+    const result = await streamChat(request, { onDelta: content => deltas.push(content) });
+
+    expect(deltas.join('')).toBe('Article 21');
+    expect(result).toEqual({
+      finishReason: 'length',
+      usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7, model: undefined, estimated: undefined }
+    });
+  });
+
+  it('reports an interrupted stream when it ends before the done event', async () => {
+    respondWith(['data: {"type":"delta","content":"Art"}\n\n']);
+
+    await expect(streamChat(request)).rejects.toMatchObject({
+      info: { code: 'stream_interrupted', requestId: 'req-1' }
+    });
+  });
+
+  it('rejects with the error the server streamed', async () => {
+    respondWith(['data: {"type":"error","code":"rate_limited","message":"Slow down"}\n\n']);
+
+    await expect(streamChat(request)).rejects.toMatchObject({ info: { code: 'rate_limited', message: 'Slow down' } });
+  });
+});
@@ -0,0 +1,126 @@
+import { ChatReference } from './chatProfiles';
+import {
+  CONTEXT_COMPACTED_EVENT,
+  ChatErrorInfo,
+  ChatStreamEvent,
+  ChatUsage,
+  ContextCompactedEvent,
+  ConversationMemory
+} from './chatProtocol';
+import { readSseEvents } from './sseParser';
+
+const CHAT_API_URL = '/api/chat';
+
+export interface ChatRequest {
+  profileId: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  references: ChatReference[];
+  memory: ConversationMemory | null;
+}
+
+export interface ChatStreamHandlers {
+  // The model expected to answer, known once the stream starts; prices answers stopped before their usage arrives
+  onModel?: (model: string) => void;
+  onDelta?: (content: string) => void;
+  onCompaction?: (event: ContextCompactedEvent) => void;
+  onUsage?: (usage: ChatUsage) => void;
+}
+
+export interface ChatStreamResult {
+  finishReason?: string;
+  usage?: ChatUsage;
+}
+
+export class ChatStreamError extends Error {
+  info: ChatErrorInfo;
+
+  constructor(info: ChatErrorInfo) {
+    super(info.message);
+    this.name = 'ChatStreamError';
+    this.info = info;
+  }
+}
+
+/**
+ * Send a chat request and consume the response stream, calling the handlers as events arrive.
+ * Resolves once the `done` event is received; rejects with a ChatStreamError otherwise.
+ * Aborting the signal cancels the request all the way to the model provider.
+ */
+export async function streamChat(
+  request: ChatRequest,
+  handlers: ChatStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<ChatStreamResult> {
+  let response: Response;
+  try {
+    response = await fetch(CHAT_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ChatStreamError({ code: 'network_error', message: 'Could not reach the server. Check your connection.' });
+  }
+  const requestId = response.headers.get('x-request-id') ?? undefined;
+
+  // Failures before streaming starts come back as JSON
+  if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+    const errorData = await response.json().catch(() => null);
+    throw new ChatStreamError(errorData?.error?.code
+      ? errorData.error
+      : { code: 'internal_error', message: `Chat request failed: ${response.status}`, requestId });
+  }
+  if (!response.body) {
+    throw new ChatStreamError({ code: 'internal_error', message: 'The server sent an empty response', requestId });
+  }
+
+  const model = response.headers.get('x-chat-model');
+  if (model) handlers.onModel?.(model);
+
+  const result: ChatStreamResult = {};
+
+  try {
+    for await (const { data } of readSseEvents(response.body)) {
+      let event: ChatStreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        console.warn('Skipping malformed chat event:', data.slice(0, 200));
+        continue;
+      }
+
+      switch (event.type) {
+        case 'delta':
+          handlers.onDelta?.(event.content);
+          break;
+        case CONTEXT_COMPACTED_EVENT:
+          handlers.onCompaction?.(event);
+          break;
+        case 'usage': {
+          const { promptTokens, completionTokens, totalTokens, model, estimated } = event;
+          result.usage = { promptTokens, completionTokens, totalTokens, model, estimated };
+          handlers.onUsage?.(result.usage);
+          break;
+        }
+        case 'finish':
+          result.finishReason = event.reason;
+          break;
+        case 'error': {
+          const { type, ...info } = event;
+          throw new ChatStreamError(info);
+        }
+        case 'done':
+          return result;
+      }
+    }
+  } catch (error) {
+    if (error instanceof ChatStreamError || signal?.aborted) throw error;
+    // The connection dropped mid-stream
+  }
+
+  throw new ChatStreamError({ code: 'stream_interrupted', message: 'The response stream ended unexpectedly', requestId });
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { formatChunkLocation } from './chunkLocation';
+
+describe('formatChunkLocation', () => {
+  it.each([
+    [{ page: 3 }, 'Page 3'],
+    [{ page: 3, pageEnd: 4 }, 'Pages 3–4'],
+    [{ slide: 2 }, 'Slide 2'],
+    [{ slide: 2, slideEnd: 5 }, 'Slides 2–5'],
+    [{ sheet: 'Budget 2024' }, 'Sheet Budget 2024'],
+    [{ chapter: 'The Preamble' }, 'The Preamble'],
+    [{}, '']
+  ])('describes %o as "%s"', (location, expected) => {
+    expect(formatChunkLocation(location)).toBe(expected);
+  });
+});
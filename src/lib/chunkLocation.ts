@@ -0,0 +1,28 @@
+/**
+ * Where a chunk sits in its document. Shared by the browser, which shows it with each source,
+ * and the chat server, which quotes it in the references given to the model.
+ */
+export interface ChunkLocation {
+  page?: number;
+  pageEnd?: number;
+  // Slides of a presentation, which have no pages
+  slide?: number;
+  slideEnd?: number;
+  // Spreadsheet sheet name
+  sheet?: string;
+  // EPUB chapter title
+  chapter?: string;
+}
+
+/**
+ * Describe a location, e.g. "Pages 3–4", "Slide 2" or "Sheet Budget 2024"; empty when unknown
+ */
+export function formatChunkLocation(location: ChunkLocation): string {
+  const range = (label: string, start: number, end?: number) =>
+    end && end !== start ? `${label}s ${start}–${end}` : `${label} ${start}`;
+
+  if (location.page !== undefined) return range('Page', location.page, location.pageEnd);
+  if (location.slide !== undefined) return range('Slide', location.slide, location.slideEnd);
+  if (location.sheet) return `Sheet ${location.sheet}`;
+  return location.chapter ?? '';
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseBlocks } from './blocks';
+
+describe('parseBlocks', () => {
+  it('tracks the heading path through nested and sibling headings', () => {
+    const blocks = parseBlocks([{
+      text: [
+        'PART III',
+        'Chapter 1 Fundamental Rights',
+        'Article 14 Equality before law',
+        'The State shall not deny equality.',
+        'Article 21 Protection of life',
+        'No person shall be deprived of life.',
+        '# Directive Principles',
+        'The State shall strive to promote welfare.'
+      ].join('\n')
+    }]);
+
+    expect(blocks.filter(block => block.type === 'paragraph').map(block => [block.text, block.headingPath])).toEqual([
+      ['The State shall not deny equality.', ['PART III', 'Chapter 1 Fundamental Rights', 'Article 14 Equality before law']],
+      ['No person shall be deprived of life.', ['PART III', 'Chapter 1 Fundamental Rights', 'Article 21 Protection of life']],
+      ['The State shall strive to promote welfare.', ['Directive Principles']]
+    ]);
+    expect(blocks.filter(block => block.type === 'heading').map(block => block.level)).toEqual([1, 2, 3, 3, 1]);
+  });
+
+  it('does not take prose that starts with a keyword for a heading', () => {
+    const [block] = parseBlocks([{ text: 'Section 2 of the Act defines a company' }]);
+
+    expect(block).toMatchObject({ type: 'paragraph', headingPath: [] });
+  });
+
+  it('groups lists, their indented continuations and tables, and joins wrapped paragraph lines', () => {
+    const blocks = parseBlocks([{
+      text: 'The preamble declares India\nsovereign and socialist.\n\n- Justice\n  social and economic\n- Liberty\n| Year | Event |\n| 1950 | Republic |'
+    }]);
+
+    expect(blocks.map(block => [block.type, block.text])).toEqual([
+      ['paragraph', 'The preamble declares India sovereign and socialist.'],
+      ['list', '- Justice social and economic\n- Liberty'],
+      ['table', '| Year | Event |\n| 1950 | Republic |']
+    ]);
+  });
+
+  it('never lets a block span two pages', () => {
+    const blocks = parseBlocks([
+      { text: 'A paragraph that continues', page: 1 },
+      { text: 'onto the next page.', page: 2 }
+    ]);
+
+    expect(blocks.map(block => [block.text, block.page])).toEqual([
+      ['A paragraph that continues', 1],
+      ['onto the next page.', 2]
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { TextBlock, TextSegment } from './types';
+
+const MAX_HEADING_LENGTH = 100;
+
+// Structural keywords used in statutes, textbooks and coaching notes, mapped to heading levels
+const KEYWORD_HEADING_LEVELS: Record<string, number> = {
+  part: 1,
+  book: 1,
+  chapter: 2,
+  unit: 2,
+  lesson: 2,
+  section: 3,
+  article: 3,
+  schedule: 3
+};
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const KEYWORD_HEADING = /^(part|book|chapter|unit|lesson|section|article|schedule)\s+([0-9]+[A-Z]?|[IVXLC]+)\b\s*[.:\-–—]?\s*(.*)$/i;
+const LIST_ITEM = /^\s*([-*•▪●◦]|\d{1,3}[.)]|\(?[a-z]\)|\(?[ivx]{1,4}\))\s+\S/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+/**
+ * Detect a heading line and return its level, or null for body text
+ */
+function headingLevel(line: string): { level: number; text: string } | null {
+  const markdown = MARKDOWN_HEADING.exec(line);
+  if (markdown) {
+    return { level: markdown[1].length, text: markdown[2] };
+  }
+
+  if (line.length > MAX_HEADING_LENGTH || /[.,;:]$/.test(line)) return null;
+
+  const keyword = KEYWORD_HEADING.exec(line);
+  // "Section 2 of the Act..." is prose; a heading's title (if any) starts with a capital
+  if (keyword && (!keyword[3] || /^[A-Z(]/.test(keyword[3]))) {
+    return { level: KEYWORD_HEADING_LEVELS[keyword[1].toLowerCase()], text: line };
+  }
+
+  // Short ALL CAPS lines such as "FUNDAMENTAL RIGHTS"
+  const letters = line.replace(/[^A-Za-z]/g, '');
+  if (letters.length >= 4 && letters === letters.toUpperCase() && !/^\d/.test(line)) {
+    return { level: 2, text: line };
+  }
+
+  return null;
+}
+
+interface PendingBlock {
+  type: 'paragraph' | 'list' | 'table';
+  lines: string[];
+  page?: number;
+}
+
+function isTableRow(line: string): boolean {
+  return TABLE_ROW.test(line) || line.split('\t').filter(cell => cell.trim()).length >= 2;
+}
+
+/**
+ * Parse page-tagged text into headings, paragraphs, lists and tables.
+ * Every block records the path of headings it sits under.
+ */
+export function parseBlocks(segments: TextSegment[]): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  // Typed through a cast so narrowing does not ignore the updates made inside the helpers below
+  let pending = null as PendingBlock | null;
+
+  const currentPath = () => headingStack.map(heading => heading.text);
+
+  const flush = () => {
+    if (!pending) return;
+    const text = pending.type === 'paragraph'
+      ? pending.lines.join(' ').replace(/\s+/g, ' ').trim()
+      : pending.lines.join('\n').trim();
+    if (text) {
+      blocks.push({ type: pending.type, text, page: pending.page, headingPath: currentPath() });
+    }
+    pending = null;
+  };
+
+  const append = (type: PendingBlock['type'], line: string, page?: number) => {
+    if (pending && pending.type !== type) flush();
+    if (!pending) pending = { type, lines: [], page };
+    pending.lines.push(line);
+  };
+
+  for (const segment of segments) {
+    // Blocks never span segments, so every block keeps a single page
+    flush();
+
+    for (const rawLine of segment.text.split(/\r?\n/)) {
+      const line = rawLine.replace(/\s+$/, '');
+      const trimmed = line.trim();
+
+      if (!trimmed) {
+        flush();
+        continue;
+      }
+
+      if (isTableRow(line)) {
+        append('table', trimmed, segment.page);
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        append('list', trimmed, segment.page);
+        continue;
+      }
+
+      // Indented lines continue the list item above them
+      if (pending?.type === 'list' && /^\s+/.test(line)) {
+        pending.lines[pending.lines.length - 1] += ' ' + trimmed;
+        continue;
+      }
+
+      const heading = headingLevel(trimmed);
+      if (heading) {
+        flush();
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= heading.level) {
+          headingStack.pop();
+        }
+        headingStack.push(heading);
+        blocks.push({
+          type: 'heading',
+          text: heading.text,
+          level: heading.level,
+          page: segment.page,
+          headingPath: currentPath()
+        });
+        continue;
+      }
+
+      append('paragraph', trimmed, segment.page);
+    }
+  }
+
+  flush();
+  return blocks;
+}
@@ -0,0 +1,45 @@
+import { parseBlocks } from './blocks';
+import { filterShortChunks, getChunkingStrategy } from './strategies';
+import { ChunkingOptions, ChunkingStrategyName, TextChunk, TextSegment } from './types';
+
+export type {
+  BlockType,
+  ChunkingOptions,
+  ChunkingStrategy,
+  ChunkingStrategyName,
+  TextBlock,
+  TextChunk,
+  TextSegment
+} from './types';
+export { parseBlocks } from './blocks';
+export { splitSentences } from './sentences';
+export { getChunkingStrategy, listChunkingStrategies, registerChunkingStrategy } from './strategies';
+
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategyName = 'section';
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  maxChunkSize: 1000,
+  overlap: 100,
+  maxTokens: 256,
+  overlapTokens: 32
+};
+
+/**
+ * Split page-tagged text into chunks using the named strategy
+ */
+export function chunkDocument(
+  segments: TextSegment[],
+  strategy: ChunkingStrategyName = DEFAULT_CHUNKING_STRATEGY,
+  options: Partial<ChunkingOptions> = {}
+): TextChunk[] {
+  const blocks = parseBlocks(segments);
+  const chunks = getChunkingStrategy(strategy).chunk(blocks, { ...DEFAULT_CHUNKING_OPTIONS, ...options });
+  return filterShortChunks(chunks);
+}
+
+/**
+ * Join a heading path for display, e.g. "Part III > Fundamental Rights > Article 21"
+ */
+export function formatHeadingPath(headingPath: string[] | undefined): string {
+  return headingPath?.join(' > ') ?? '';
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { splitSentences } from './sentences';
+
+describe('splitSentences', () => {
+  it('splits on sentence punctuation followed by whitespace', () => {
+    expect(splitSentences('Parliament is bicameral. Is the Rajya Sabha permanent? Yes!'))
+      .toEqual(['Parliament is bicameral.', 'Is the Rajya Sabha permanent?', 'Yes!']);
+  });
+
+  it('does not break on abbreviations, initials, dotted acronyms or decimals', () => {
+    const text = 'Art. 21 was read widely by Dr. B. R. Ambedkar and the U.S. court. Growth was 7.5 per cent in 2023.';
+
+    expect(splitSentences(text)).toEqual([
+      'Art. 21 was read widely by Dr. B. R. Ambedkar and the U.S. court.',
+      'Growth was 7.5 per cent in 2023.'
+    ]);
+  });
+
+  it('keeps closing quotes with their sentence and treats the danda as a boundary', () => {
+    expect(splitSentences('He said "Swaraj is my birthright." Then he left.'))
+      .toEqual(['He said "Swaraj is my birthright."', 'Then he left.']);
+    expect(splitSentences('भारत एक गणराज्य है। संविधान सर्वोच्च है।')).toEqual(['भारत एक गणराज्य है।', 'संविधान सर्वोच्च है।']);
+  });
+
+  it('does not start a sentence at a lowercase continuation and keeps unterminated text', () => {
+    expect(splitSentences('See the list at p. vi of the report. No full stop here'))
+      .toEqual(['See the list at p. vi of the report.', 'No full stop here']);
+  });
+});
@@ -0,0 +1,57 @@
+// Abbreviations that end with a period but do not end a sentence (compared lowercase, without the final period)
+const ABBREVIATIONS = new Set([
+  'art', 'arts', 'no', 'nos', 'sec', 'secs', 'cl', 'ch', 'chap', 'sch', 'para', 'paras', 'vol', 'vols',
+  'pp', 'p', 'fig', 'figs', 'eq', 'ref', 'refs', 'ed', 'eds', 'approx', 'est', 'max', 'min',
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'sh', 'smt', 'shri', 'hon', 'gen', 'col', 'lt', 'capt', 'maj',
+  'govt', 'dept', 'co', 'corp', 'inc', 'ltd', 'pvt', 'bros', 'assn', 'dist', 'div',
+  'vs', 'viz', 'etc', 'cf', 'al', 'ibid', 'resp',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'e.g', 'i.e', 'u.s', 'u.k', 'u.n', 'u.s.a', 'a.d', 'b.c', 'a.m', 'p.m', 'ph.d'
+]);
+
+/**
+ * Decide whether the text before a period ends with an abbreviation or an initial
+ */
+function endsWithAbbreviation(text: string): boolean {
+  const match = /([A-Za-z][A-Za-z.]*)$/.exec(text);
+  if (!match) return false;
+
+  const word = match[1].toLowerCase();
+  if (ABBREVIATIONS.has(word)) return true;
+
+  // Initials and dotted acronyms such as "A." or "U.S" / "N.C.E.R.T"
+  return /^[a-z]$/.test(word) || /^([a-z]\.)+[a-z]$/.test(word);
+}
+
+/**
+ * Split text into sentences without breaking on abbreviations ("Art. 21", "U.S.") or
+ * decimal numbers ("7.5 per cent"); the Devanagari danda also ends a sentence
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  // Sentence-ending punctuation, optional closing quotes/brackets, then whitespace or end of text
+  const boundary = /([.!?।॥]+)(["'”’)\]]*)(\s+|$)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[1].length + match[2].length;
+    const before = text.slice(start, match.index);
+    const isPeriod = match[1] === '.';
+
+    if (isPeriod && endsWithAbbreviation(before)) continue;
+
+    // A lowercase continuation after a plain period is rarely a new sentence
+    const next = text.slice(match.index + match[0].length, match.index + match[0].length + 1);
+    if (isPeriod && next && /[a-z]/.test(next)) continue;
+
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = match.index + match[0].length;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+}
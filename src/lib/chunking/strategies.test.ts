@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocument, DEFAULT_CHUNKING_OPTIONS, getChunkingStrategy, listChunkingStrategies, registerChunkingStrategy } from './index';
+import { estimateTokens } from '../tokens';
+
+// Ten numbered sentences of about 50 characters each
+const sentences = Array.from({ length: 10 }, (_, i) => `Sentence number ${i + 1} talks about Indian polity.`);
+const paragraph = sentences.join(' ');
+
+describe('sentence strategy', () => {
+  it('packs whole sentences up to the size limit and repeats trailing sentences as overlap', () => {
+    const chunks = chunkDocument([{ text: paragraph }], 'sentence', { maxChunkSize: 160, overlap: 60 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(160);
+      // Chunks start and end on sentence boundaries
+      expect(chunk.content).toMatch(/^Sentence number \d+ .*\.$/);
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      const lastOfPrevious = chunks[i - 1].content.split(/(?<=\.) /).at(-1)!;
+      expect(chunks[i].content.startsWith(lastOfPrevious)).toBe(true);
+    }
+    expect(chunks.at(-1)!.content.endsWith(sentences.at(-1)!)).toBe(true);
+  });
+
+  it('does not overlap when overlap is zero', () => {
+    const chunks = chunkDocument([{ text: paragraph }], 'sentence', { maxChunkSize: 160, overlap: 0 });
+
+    expect(chunks.map(chunk => chunk.content).join(' ')).toBe(paragraph);
+  });
+});
+
+describe('section strategy', () => {
+  it('keeps each heading section apart and records its heading path and pages', () => {
+    const chunks = chunkDocument([
+      { text: '# Polity\n## Parliament\nThe Lok Sabha is the lower house.', page: 3 },
+      { text: 'The Rajya Sabha is the upper house.\n## Judiciary\nThe Supreme Court sits in New Delhi.', page: 4 }
+    ], 'section');
+
+    expect(chunks).toEqual([
+      {
+        content: 'The Lok Sabha is the lower house.\n\nThe Rajya Sabha is the upper house.',
+        page: 3,
+        pageEnd: 4,
+        headingPath: ['Polity', 'Parliament']
+      },
+      { content: 'The Supreme Court sits in New Delhi.', page: 4, pageEnd: undefined, headingPath: ['Polity', 'Judiciary'] }
+    ]);
+  });
+
+  it('splits a long section at paragraph boundaries, falling back to sentences for an oversized paragraph', () => {
+    const chunks = chunkDocument([{ text: `Short opening paragraph here.\n\n${paragraph}` }], 'section', { maxChunkSize: 200 });
+
+    expect(chunks[0].content.startsWith('Short opening paragraph here.')).toBe(true);
+    for (const chunk of chunks) expect(chunk.content.length).toBeLessThanOrEqual(200);
+    expect(chunks.map(chunk => chunk.content).join(' ').replace(/\s+/g, ' ')).toBe(`Short opening paragraph here. ${paragraph}`);
+  });
+});
+
+describe('paragraph strategy', () => {
+  it('gives each paragraph its own chunk and merges very short ones', () => {
+    const long = sentences.slice(0, 6).join(' ');
+    const chunks = chunkDocument([{ text: `${long}\n\nTiny one here.\n\nTiny two here.\n\n${long}` }], 'paragraph', { maxChunkSize: 400 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([long, `Tiny one here.\n\nTiny two here.\n\n${long}`]);
+  });
+});
+
+describe('token strategy', () => {
+  it('packs sentences by estimated tokens rather than characters', () => {
+    const chunks = chunkDocument([{ text: paragraph }], 'token', { maxTokens: 40, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(40);
+  });
+});
+
+describe('strategy registry', () => {
+  it('lists the built-in strategies, accepts custom ones and rejects unknown names', () => {
+    expect(listChunkingStrategies().map(strategy => strategy.name)).toEqual(
+      expect.arrayContaining(['sentence', 'paragraph', 'section', 'token'])
+    );
+
+    registerChunkingStrategy({
+      name: 'whole',
+      label: 'Whole',
+      description: 'Everything in one chunk',
+      chunk: blocks => [{ content: blocks.map(block => block.text).join('\n'), headingPath: [] }]
+    });
+    expect(chunkDocument([{ text: 'First line of text.\nSecond line of text.' }], 'whole')).toEqual([
+      { content: 'First line of text. Second line of text.', headingPath: [] }
+    ]);
+    expect(() => getChunkingStrategy('missing')).toThrow('Unknown chunking strategy: missing');
+  });
+
+  it('drops chunks too short to embed', () => {
+    expect(chunkDocument([{ text: 'Too short.' }], 'section', DEFAULT_CHUNKING_OPTIONS)).toEqual([]);
+  });
+});
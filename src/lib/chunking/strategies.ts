@@ -0,0 +1,225 @@
+import { estimateTokens } from '../tokens';
+import { splitSentences } from './sentences';
+import { ChunkingStrategy, TextBlock, TextChunk } from './types';
+
+// Chunks shorter than this carry too little meaning to be worth embedding
+const MIN_CHUNK_LENGTH = 10;
+
+/**
+ * The smallest piece of text a strategy packs into chunks
+ */
+interface Unit {
+  text: string;
+  page?: number;
+  blockIndex: number;
+  // Separator used when joining with the previous unit of the same block
+  separator: string;
+}
+
+type Measure = (text: string) => number;
+
+const measureChars: Measure = text => text.length;
+
+/**
+ * Group body blocks into runs that share the same heading path
+ */
+function groupSections(blocks: TextBlock[]): TextBlock[][] {
+  const sections: TextBlock[][] = [];
+  let currentKey: string | null = null;
+
+  for (const block of blocks) {
+    if (block.type === 'heading') continue;
+
+    const key = block.headingPath.join('\u0000');
+    if (key !== currentKey || sections.length === 0) {
+      sections.push([]);
+      currentKey = key;
+    }
+    sections[sections.length - 1].push(block);
+  }
+
+  return sections;
+}
+
+/**
+ * Break a block into sentence units (paragraphs) or line units (lists and tables)
+ */
+function fineUnits(block: TextBlock, blockIndex: number): Unit[] {
+  if (block.type === 'paragraph') {
+    return splitSentences(block.text).map(text => ({ text, page: block.page, blockIndex, separator: ' ' }));
+  }
+  return block.text.split('\n').map(text => ({ text, page: block.page, blockIndex, separator: '\n' }));
+}
+
+/**
+ * Keep a block whole when it fits, otherwise fall back to its sentences or lines
+ */
+function blockUnits(block: TextBlock, blockIndex: number, maxSize: number, measure: Measure): Unit[] {
+  if (measure(block.text) <= maxSize) {
+    return [{ text: block.text, page: block.page, blockIndex, separator: '\n\n' }];
+  }
+  return fineUnits(block, blockIndex);
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((unit, index) => {
+      if (index === 0) return unit.text;
+      const separator = units[index - 1].blockIndex === unit.blockIndex ? unit.separator : '\n\n';
+      return separator + unit.text;
+    })
+    .join('');
+}
+
+function toChunk(units: Unit[], headingPath: string[]): TextChunk {
+  const pages = units.map(unit => unit.page).filter((page): page is number => page !== undefined);
+  const page = pages.length > 0 ? Math.min(...pages) : undefined;
+  const pageEnd = pages.length > 0 ? Math.max(...pages) : undefined;
+
+  return {
+    content: joinUnits(units),
+    page,
+    pageEnd: pageEnd !== page ? pageEnd : undefined,
+    headingPath
+  };
+}
+
+/**
+ * Greedily pack units into chunks no larger than maxSize, repeating up to
+ * overlapSize of trailing units at the start of the following chunk
+ */
+function packUnits(units: Unit[], headingPath: string[], maxSize: number, overlapSize: number, measure: Measure): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: Unit[] = [];
+
+  for (const unit of units) {
+    const proposed = joinUnits([...current, unit]);
+
+    if (current.length > 0 && measure(proposed) > maxSize) {
+      chunks.push(toChunk(current, headingPath));
+
+      // Carry trailing units over as overlap, as long as they leave room for the new unit
+      const overlap: Unit[] = [];
+      for (let i = current.length - 1; i >= 0; i--) {
+        const candidate = [current[i], ...overlap];
+        if (measure(joinUnits(candidate)) > overlapSize || measure(joinUnits([...candidate, unit])) > maxSize) break;
+        overlap.unshift(current[i]);
+      }
+      current = [...overlap, unit];
+    } else {
+      current.push(unit);
+    }
+  }
+
+  if (current.length > 0) {
+    chunks.push(toChunk(current, headingPath));
+  }
+
+  return chunks;
+}
+
+const sentenceStrategy: ChunkingStrategy = {
+  name: 'sentence',
+  label: 'Sentence',
+  description: 'Packs whole sentences up to the size limit; lists and tables stay intact when they fit',
+  chunk: (blocks, options) => groupSections(blocks).flatMap(section => {
+    const units = section.flatMap((block, index) =>
+      block.type === 'paragraph' ? fineUnits(block, index) : blockUnits(block, index, options.maxChunkSize, measureChars)
+    );
+    return packUnits(units, section[0].headingPath, options.maxChunkSize, options.overlap, measureChars);
+  })
+};
+
+const paragraphStrategy: ChunkingStrategy = {
+  name: 'paragraph',
+  label: 'Paragraph',
+  description: 'One chunk per paragraph, list or table; very short paragraphs are merged with their neighbours',
+  chunk: (blocks, options) => groupSections(blocks).flatMap(section => {
+    const chunks: TextChunk[] = [];
+    let small: Unit[] = [];
+    const minSize = options.maxChunkSize / 4;
+
+    section.forEach((block, index) => {
+      const units = blockUnits(block, index, options.maxChunkSize, measureChars);
+      if (units.length > 1) {
+        if (small.length > 0) chunks.push(toChunk(small, block.headingPath));
+        small = [];
+        chunks.push(...packUnits(units, block.headingPath, options.maxChunkSize, 0, measureChars));
+        return;
+      }
+
+      const merged = [...small, units[0]];
+      if (small.length > 0 && joinUnits(merged).length > options.maxChunkSize) {
+        chunks.push(toChunk(small, block.headingPath));
+        small = [units[0]];
+      } else {
+        small = merged;
+      }
+      if (joinUnits(small).length >= minSize) {
+        chunks.push(toChunk(small, block.headingPath));
+        small = [];
+      }
+    });
+
+    if (small.length > 0) chunks.push(toChunk(small, section[0].headingPath));
+    return chunks;
+  })
+};
+
+const sectionStrategy: ChunkingStrategy = {
+  name: 'section',
+  label: 'Section',
+  description: 'One chunk per heading section, split at paragraph boundaries when a section is too long',
+  chunk: (blocks, options) => groupSections(blocks).flatMap(section => {
+    const units = section.flatMap((block, index) => blockUnits(block, index, options.maxChunkSize, measureChars));
+    return packUnits(units, section[0].headingPath, options.maxChunkSize, 0, measureChars);
+  })
+};
+
+const tokenStrategy: ChunkingStrategy = {
+  name: 'token',
+  label: 'Token budget',
+  description: 'Packs sentences up to a model token budget rather than a character count',
+  chunk: (blocks, options) => groupSections(blocks).flatMap(section => {
+    const units = section.flatMap((block, index) =>
+      block.type === 'paragraph' ? fineUnits(block, index) : blockUnits(block, index, options.maxTokens, estimateTokens)
+    );
+    return packUnits(units, section[0].headingPath, options.maxTokens, options.overlapTokens, estimateTokens);
+  })
+};
+
+const strategies = new Map<string, ChunkingStrategy>(
+  [sentenceStrategy, paragraphStrategy, sectionStrategy, tokenStrategy].map(strategy => [strategy.name, strategy])
+);
+
+/**
+ * Register a custom chunking strategy, replacing any strategy with the same name
+ */
+export function registerChunkingStrategy(strategy: ChunkingStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+/**
+ * Look up a chunking strategy by name
+ */
+export function getChunkingStrategy(name: string): ChunkingStrategy {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown chunking strategy: ${name}`);
+  }
+  return strategy;
+}
+
+/**
+ * List all registered chunking strategies
+ */
+export function listChunkingStrategies(): ChunkingStrategy[] {
+  return Array.from(strategies.values());
+}
+
+/**
+ * Drop chunks that are too short to be useful
+ */
+export function filterShortChunks(chunks: TextChunk[]): TextChunk[] {
+  return chunks.filter(chunk => chunk.content.trim().length > MIN_CHUNK_LENGTH);
+}
@@ -0,0 +1,55 @@
+/**
+ * A run of extracted text, optionally tied to the page it came from
+ */
+export interface TextSegment {
+  text: string;
+  page?: number;
+}
+
+export type BlockType = 'heading' | 'paragraph' | 'list' | 'table';
+
+/**
+ * A structural block of a document (heading, paragraph, list or table)
+ */
+export interface TextBlock {
+  type: BlockType;
+  text: string;
+  page?: number;
+  /** Heading level, only set for heading blocks (1 is the outermost) */
+  level?: number;
+  /** Headings enclosing this block, outermost first */
+  headingPath: string[];
+}
+
+/**
+ * A chunk of text along with the page range and section it was taken from
+ */
+export interface TextChunk {
+  content: string;
+  page?: number;
+  pageEnd?: number;
+  headingPath: string[];
+}
+
+export type BuiltInChunkingStrategy = 'sentence' | 'paragraph' | 'section' | 'token';
+
+// Custom strategies can be registered under any name
+export type ChunkingStrategyName = BuiltInChunkingStrategy | (string & {});
+
+export interface ChunkingOptions {
+  /** Maximum chunk length in characters */
+  maxChunkSize: number;
+  /** Characters of trailing context repeated at the start of the next chunk */
+  overlap: number;
+  /** Maximum chunk size in estimated tokens, used by the token strategy */
+  maxTokens: number;
+  /** Tokens of trailing context repeated by the token strategy */
+  overlapTokens: number;
+}
+
+export interface ChunkingStrategy {
+  name: ChunkingStrategyName;
+  label: string;
+  description: string;
+  chunk: (blocks: TextBlock[], options: ChunkingOptions) => TextChunk[];
+}
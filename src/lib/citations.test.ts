@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { citationMarker, findCitations, findUnmatchedCitations, linkCitations, parseCitationHref } from './citations';
+
+describe('findCitations', () => {
+  it('collects single, grouped and adjacent citations in order of first appearance', () => {
+    expect(findCitations('Equality [3] and liberty [1, 2][2][4]. Again [3].')).toEqual([3, 1, 2, 4]);
+  });
+
+  it('ignores markdown links, link definitions and code', () => {
+    const content = 'See [1](https://example.com).\n\n[2]: https://example.com\n\nUse `arr[5]` or\n```\nx[6]\n```\nonly [7].';
+
+    expect(findCitations(content)).toEqual([7]);
+  });
+});
+
+describe('findUnmatchedCitations', () => {
+  it('flags numbers outside the references the answer was given', () => {
+    expect(findUnmatchedCitations('Article 21 [1][2] was widened [0] and [3, 9].', 2)).toEqual([0, 3, 9]);
+  });
+
+  it('flags every citation when the search returned nothing', () => {
+    expect(findUnmatchedCitations('The Preamble [1] says so [2].', 0)).toEqual([1, 2]);
+    expect(findUnmatchedCitations('No citations here.', 0)).toEqual([]);
+  });
+});
+
+describe('linkCitations', () => {
+  it('turns each number into its own link, leaving code untouched', () => {
+    expect(linkCitations('Rights [1][2] and duties [1, 3], not `a[2]`.')).toBe(
+      'Rights [1](#citation-1)[2](#citation-2) and duties [1](#citation-1)[3](#citation-3), not `a[2]`.'
+    );
+  });
+
+  it('produces links that parse back to their numbers', () => {
+    expect(parseCitationHref('#citation-12')).toBe(12);
+    expect(parseCitationHref('#citation-x')).toBeNull();
+    expect(parseCitationHref('https://example.com')).toBeNull();
+    expect(parseCitationHref(undefined)).toBeNull();
+    expect(citationMarker(0)).toBe('[1]');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Citation protocol between the prompt, the model and the renderer. The references sent with
+ * a question are numbered from 1 in the order they were retrieved, which is also the order of
+ * the message's `ragContext`, so a number keeps pointing at the same chunk after reloads.
+ * The model cites with bracketed numbers (`[2]`, `[1, 3]`), which the renderer turns into links.
+ */
+
+// Fragment used for citation links; a plain anchor so markdown URL sanitizing keeps it
+const CITATION_HREF_PREFIX = '#citation-';
+
+// [1] or [1, 3], but not a markdown link `[1](...)` or link definition `[1]: ...`
+const CITATION_PATTERN = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?![(:])/g;
+
+// Fenced code blocks and inline code spans are left as written
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+/**
+ * The marker a reference is labelled with in the prompt; `index` is its position in the list
+ */
+export function citationMarker(index: number): string {
+  return `[${index + 1}]`;
+}
+
+function mapOutsideCode(content: string, replace: (text: string) => string): string {
+  return content
+    .split(CODE_PATTERN)
+    .map((part, index) => index % 2 === 1 ? part : replace(part))
+    .join('');
+}
+
+/**
+ * Every citation number in an answer, in order of first appearance
+ */
+export function findCitations(content: string): number[] {
+  const numbers = new Set<number>();
+  mapOutsideCode(content, text => {
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      match[1].split(',').forEach(number => numbers.add(Number(number.trim())));
+    }
+    return text;
+  });
+  return Array.from(numbers);
+}
+
+/**
+ * Citations that do not match any of the references the answer was given
+ */
+export function findUnmatchedCitations(content: string, referenceCount: number): number[] {
+  return findCitations(content).filter(number => number < 1 || number > referenceCount);
+}
+
+/**
+ * Rewrite citation markers as markdown links the renderer can recognise.
+ * `[1, 3]` becomes two adjacent links so each number opens its own chunk.
+ */
+export function linkCitations(content: string): string {
+  return mapOutsideCode(content, text => text.replace(CITATION_PATTERN, (_, numbers: string) =>
+    numbers.split(',').map(number => `[${number.trim()}](${CITATION_HREF_PREFIX}${number.trim()})`).join('')
+  ));
+}
+
+/**
+ * The citation number of a link produced by `linkCitations`, or null for ordinary links
+ */
+export function parseCitationHref(href: string | undefined): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+  const number = Number(href.slice(CITATION_HREF_PREFIX.length));
+  return Number.isInteger(number) ? number : null;
+}
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConversationMessages, listConversations, Message, saveConversation } from './conversations';
+import { forkConversation } from './messageBranches';
+
+// localforage stand-in: one Map per store, wiped between tests
+const stores = vi.hoisted(() => new Map<string, Map<string, unknown>>());
+
+vi.mock('localforage', () => ({
+  default: {
+    createInstance: ({ name }: { name: string }) => {
+      const store = stores.get(name) ?? new Map<string, unknown>();
+      stores.set(name, store);
+      return {
+        setItem: async (key: string, value: unknown) => store.set(key, structuredClone(value)),
+        getItem: async (key: string) => structuredClone(store.get(key) ?? null),
+        removeItem: async (key: string) => { store.delete(key); },
+        iterate: async (callback: (value: unknown, key: string) => void) => {
+          store.forEach((value, key) => callback(structuredClone(value), key));
+        }
+      };
+    }
+  }
+}));
+
+vi.stubGlobal('window', {});
+
+const message = (id: string, role: Message['role'], content: string): Message => ({
+  id,
+  role,
+  content,
+  timestamp: new Date(2026, 9, 19)
+});
+
+describe('saveConversation', () => {
+  beforeEach(() => {
+    stores.forEach(store => store.clear());
+  });
+
+  it('clears the rolling summary when a fork resets it, so a reload does not restore it', async () => {
+    const messages = [
+      message('1', 'user', 'What is Article 21?'),
+      message('2', 'assistant', 'It protects life and personal liberty.'),
+      message('3', 'user', 'And Article 22?'),
+      message('4', 'assistant', 'It guards against arbitrary arrest.')
+    ];
+    await saveConversation('c1', messages, { memory: { summary: 'Article 21 was covered.', coveredCount: 2 } });
+
+    // Editing the first question forks the thread before the summarized messages
+    const forked = forkConversation(messages, 0, message('5', 'user', 'What is Article 14?'));
+    await saveConversation('c1', forked, { memory: null });
+
+    const [reloaded] = await listConversations();
+    expect(reloaded.memory).toBeUndefined();
+    expect((await getConversationMessages('c1')).map(saved => saved.id)).toEqual(['5']);
+  });
+
+  it('keeps the stored summary when none is passed', async () => {
+    const memory = { summary: 'Article 21 was covered.', coveredCount: 2 };
+    await saveConversation('c1', [message('1', 'user', 'What is Article 21?')], { memory });
+    await saveConversation('c1', [message('1', 'user', 'What is Article 21?')], { profileId: 'prelims' });
+
+    const [reloaded] = await listConversations();
+    expect(reloaded.memory).toEqual(memory);
+    expect(reloaded.profileId).toBe('prelims');
+  });
+});
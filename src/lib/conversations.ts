@@ -0,0 +1,263 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentChunk } from './documentProcessor';
+import { ChatErrorInfo, ChatUsage, ConversationMemory } from './chatProtocol';
+import { UsageTotals } from './usageLedger';
+import { estimateCost } from './usagePricing';
+
+export interface Message {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  // Passages the answer was given; empty when documents were searched and nothing matched
+  ragContext?: DocumentChunk[];
+  // Set when generation stopped for a reason other than a natural end, e.g. 'length'
+  finishReason?: string;
+  // Why the answer failed; shown as an error state and never sent to the model
+  error?: ChatErrorInfo;
+  // Tokens spent on this answer
+  usage?: ChatUsage;
+  // Alternative continuations forking at this message, see messageBranches.ts
+  branches?: Message[][];
+  branchIndex?: number;
+}
+
+/**
+ * Conversation details shown in the sidebar; messages are stored separately
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  // Set once the user renames the conversation, so automatic titles no longer replace it
+  customTitle: boolean;
+  pinned: boolean;
+  archived: boolean;
+  // Chat profile the conversation was last used with
+  profileId?: string;
+  // Rolling summary of turns that no longer fit the model's context window
+  memory?: ConversationMemory;
+  // Tokens and estimated cost of every answer, including those on other branches
+  usage?: UsageTotals;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const MAX_TITLE_LENGTH = 48;
+
+// Type import for LocalForage (available at runtime)
+type LocalForage = {
+  setItem: (key: string, value: unknown) => Promise<unknown>;
+  getItem: <T>(key: string) => Promise<T | null>;
+  removeItem: (key: string) => Promise<void>;
+  iterate: (callback: (value: unknown, key: string) => void) => Promise<void>;
+};
+
+let conversationsDB: LocalForage | null = null;
+let messagesDB: LocalForage | null = null;
+
+async function initializeDatabases() {
+  if (typeof window === 'undefined') {
+    throw new Error('Database operations only available in browser environment');
+  }
+
+  if (!conversationsDB || !messagesDB) {
+    const localForage = (await import('localforage')).default;
+
+    conversationsDB = localForage.createInstance({
+      name: 'excellor-conversations',
+      version: 1.0,
+      description: 'Conversation list for EXCELLOR AI'
+    });
+
+    messagesDB = localForage.createInstance({
+      name: 'excellor-messages',
+      version: 1.0,
+      description: 'Conversation messages for EXCELLOR AI'
+    });
+  }
+
+  return { conversationsDB, messagesDB };
+}
+
+/**
+ * Derive a sidebar title from the first question: markdown stripped, cut at a word boundary
+ */
+export function generateConversationTitle(text: string): string {
+  const plain = text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[#*_`>[\]()]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!plain) return DEFAULT_CONVERSATION_TITLE;
+  if (plain.length <= MAX_TITLE_LENGTH) return plain;
+
+  const cut = plain.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+/**
+ * Id for a new conversation; nothing is stored until its first message is saved
+ */
+export function newConversationId(): string {
+  return uuidv4();
+}
+
+function createConversation(id: string): ConversationSummary {
+  const now = new Date();
+  return {
+    id,
+    title: DEFAULT_CONVERSATION_TITLE,
+    customTitle: false,
+    pinned: false,
+    archived: false,
+    messageCount: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function reviveSummary(value: ConversationSummary): ConversationSummary {
+  return { ...value, createdAt: new Date(value.createdAt), updatedAt: new Date(value.updatedAt) };
+}
+
+/**
+ * Pinned conversations first, then the most recently active
+ */
+function compareConversations(a: ConversationSummary, b: ConversationSummary): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.updatedAt.getTime() - a.updatedAt.getTime();
+}
+
+/**
+ * Get every saved conversation, archived ones included, in sidebar order
+ */
+export async function listConversations(): Promise<ConversationSummary[]> {
+  try {
+    const { conversationsDB } = await initializeDatabases();
+    const conversations: ConversationSummary[] = [];
+    await conversationsDB.iterate((value: unknown) => {
+      conversations.push(reviveSummary(value as ConversationSummary));
+    });
+    return conversations.sort(compareConversations);
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return [];
+  }
+}
+
+export async function getConversationMessages(conversationId: string): Promise<Message[]> {
+  try {
+    const { messagesDB } = await initializeDatabases();
+    const messages = (await messagesDB.getItem<Message[]>(conversationId)) ?? [];
+    return messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
+  } catch (error) {
+    console.error('Error loading conversation:', error);
+    throw new Error('Failed to load conversation');
+  }
+}
+
+function sumUsage(messages: Message[], totals: UsageTotals = { tokens: 0, cost: 0 }): UsageTotals {
+  for (const message of messages) {
+    if (message.usage) {
+      totals.tokens += message.usage.totalTokens;
+      totals.cost += estimateCost(message.usage.model ?? '', message.usage.promptTokens, message.usage.completionTokens);
+    }
+    for (const branch of message.branches ?? []) {
+      sumUsage(branch, totals);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Save a conversation's messages, creating it on first save. Until the user renames it,
+ * the title follows the first question.
+ */
+export async function saveConversation(
+  conversationId: string,
+  messages: Message[],
+  options: { profileId?: string; memory?: ConversationMemory | null } = {}
+): Promise<ConversationSummary> {
+  try {
+    const { conversationsDB, messagesDB } = await initializeDatabases();
+    const stored = await conversationsDB.getItem<ConversationSummary>(conversationId);
+    const conversation = stored ? reviveSummary(stored) : createConversation(conversationId);
+    const firstQuestion = messages.find(message => message.role === 'user');
+    const summary: ConversationSummary = {
+      ...conversation,
+      title: conversation.customTitle || !firstQuestion ? conversation.title : generateConversationTitle(firstQuestion.content),
+      profileId: options.profileId ?? conversation.profileId,
+      // An explicit null clears the summary, e.g. after a fork left the messages it covered
+      memory: 'memory' in options ? options.memory ?? undefined : conversation.memory,
+      usage: sumUsage(messages),
+      messageCount: messages.length,
+      updatedAt: new Date()
+    };
+
+    await messagesDB.setItem(conversation.id, messages);
+    await conversationsDB.setItem(conversation.id, summary);
+    return summary;
+  } catch (error) {
+    console.error('Error saving conversation:', error);
+    throw new Error('Failed to save conversation');
+  }
+}
+
+/**
+ * Rename, pin or archive a conversation without touching its messages
+ */
+export async function updateConversation(
+  conversationId: string,
+  changes: Partial<Pick<ConversationSummary, 'title' | 'pinned' | 'archived'>>
+): Promise<ConversationSummary | null> {
+  try {
+    const { conversationsDB } = await initializeDatabases();
+    const stored = await conversationsDB.getItem<ConversationSummary>(conversationId);
+    if (!stored) return null;
+
+    const summary: ConversationSummary = {
+      ...reviveSummary(stored),
+      ...changes,
+      ...(changes.title !== undefined ? { title: changes.title.trim() || DEFAULT_CONVERSATION_TITLE, customTitle: true } : {})
+    };
+    await conversationsDB.setItem(conversationId, summary);
+    return summary;
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    throw new Error('Failed to update conversation');
+  }
+}
+
+export async function deleteConversation(conversationId: string): Promise<void> {
+  try {
+    const { conversationsDB, messagesDB } = await initializeDatabases();
+    await messagesDB.removeItem(conversationId);
+    await conversationsDB.removeItem(conversationId);
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    throw new Error('Failed to delete conversation');
+  }
+}
+
+/**
+ * Ids of conversations whose title or messages contain the query
+ */
+export async function searchConversations(query: string): Promise<Set<string>> {
+  const needle = query.trim().toLowerCase();
+  const matches = new Set<string>();
+  if (!needle) return matches;
+
+  const { conversationsDB, messagesDB } = await initializeDatabases();
+  await conversationsDB.iterate((value: unknown, conversationId: string) => {
+    if ((value as ConversationSummary).title.toLowerCase().includes(needle)) matches.add(conversationId);
+  });
+  await messagesDB.iterate((value: unknown, conversationId: string) => {
+    if ((value as Message[]).some(message => message.content.toLowerCase().includes(needle))) matches.add(conversationId);
+  });
+  return matches;
+}
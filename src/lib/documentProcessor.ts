@@ -1,4 +1,24 @@
 import { v4 as uuidv4 } from 'uuid';
+import { chunkDocument, ChunkingStrategyName, DEFAULT_CHUNKING_STRATEGY } from './chunking';
+import type { EmbeddingProvenance } from './embeddingProvenance';
+import {
+  csvExtractor,
+  DocumentExtractor,
+  DocumentType,
+  epubExtractor,
+  ExtractedSegment,
+  htmlExtractor,
+  htmlToStructuredText,
+  markdownExtractor,
+  pptxExtractor,
+  xlsxExtractor
+} from './extractors';
+import { createOcrSession, OcrSession } from './ocr';
+import type { RetrievalScores } from './rankFusion';
+
+export type { TextSegment } from './chunking';
+export type { DocumentExtractor, DocumentType, ExtractedDocument, ExtractedSegment } from './extractors';
+export { formatChunkLocation } from './chunkLocation';
 
 // Only import these on client side to prevent SSR issues
 
@@ -8,54 +28,96 @@ export interface DocumentChunk {
   metadata: {
     source: string;
     page?: number;
+    pageEnd?: number;
+    headingPath?: string[];
+    // Slides of a presentation, which have no pages
+    slide?: number;
+    slideEnd?: number;
+    // Spreadsheet sheet name
+    sheet?: string;
+    // EPUB chapter title
+    chapter?: string;
     chunkIndex: number;
-    type: 'pdf' | 'docx' | 'txt';
+    type: DocumentType;
+    // Mean OCR confidence (0-100) of the scanned pages the chunk was read from
+    ocrConfidence?: number;
   };
   embedding?: number[];
+  // Set on search results: the document the chunk belongs to
+  documentId?: string;
+  // Set on search results: how the chunk ranked in each retriever
+  retrieval?: RetrievalScores;
 }
 
 export interface ProcessedDocument {
   id: string;
   name: string;
-  type: 'pdf' | 'docx' | 'txt';
+  type: DocumentType;
   chunks: DocumentChunk[];
   totalPages?: number;
+  chunkingStrategy?: ChunkingStrategyName;
+  // Model, dimensions and version of the vectors stored for this document's chunks
+  embeddingProvenance?: EmbeddingProvenance;
+  // Whether the uploaded file is kept for the document viewer; older uploads only have their text
+  hasOriginal?: boolean;
   createdAt: Date;
 }
 
 /**
- * Extract text from PDF file
+ * Text of a single PDF page
  */
-export async function extractTextFromPDF(file: File): Promise<string> {
+export interface PageText {
+  page: number;
+  text: string;
+  // Set when the page had no text layer and was read with OCR
+  ocrConfidence?: number;
+}
+
+/**
+ * Load pdf.js with its worker configured - the local worker first, then the CDN
+ */
+export async function loadPdfJs(): Promise<typeof import('pdfjs-dist')> {
+  // Dynamic import to prevent SSR issues
+  const pdfjs = await import('pdfjs-dist');
+
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    // Try local worker first
+    const localWorkerSrc = '/js/pdf.worker.min.js';
+
+    try {
+      // Test if local worker is available
+      const response = await fetch(localWorkerSrc, { method: 'HEAD' });
+      if (response.ok) {
+        pdfjs.GlobalWorkerOptions.workerSrc = localWorkerSrc;
+        console.log('PDF.js worker configured with local worker:', localWorkerSrc);
+      } else {
+        throw new Error('Local worker not available');
+      }
+    } catch {
+      // Fallback to CDN
+      const cdnWorkerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+      pdfjs.GlobalWorkerOptions.workerSrc = cdnWorkerSrc;
+      console.log('PDF.js worker configured with CDN worker:', cdnWorkerSrc);
+    }
+  }
+
+  return pdfjs;
+}
+
+/**
+ * Extract text from PDF file, one entry per page with text. Pages without a text layer,
+ * as in scanned documents, are read with OCR.
+ */
+export async function extractPagesFromPDF(
+  file: File,
+  onProgress?: (message: string) => void
+): Promise<{ pages: PageText[]; totalPages: number }> {
   if (typeof window === 'undefined') {
     throw new Error('PDF processing only available in browser environment');
   }
 
   try {
-    // Dynamic import to prevent SSR issues
-    const pdfjs = await import('pdfjs-dist');
-
-    // Configure worker - use local worker first, then fallback to CDN
-    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
-      // Try local worker first
-      const localWorkerSrc = '/js/pdf.worker.min.js';
-
-      try {
-        // Test if local worker is available
-        const response = await fetch(localWorkerSrc, { method: 'HEAD' });
-        if (response.ok) {
-          pdfjs.GlobalWorkerOptions.workerSrc = localWorkerSrc;
-          console.log('PDF.js worker configured with local worker:', localWorkerSrc);
-        } else {
-          throw new Error('Local worker not available');
-        }
-      } catch {
-        // Fallback to CDN
-        const cdnWorkerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
-        pdfjs.GlobalWorkerOptions.workerSrc = cdnWorkerSrc;
-        console.log('PDF.js worker configured with CDN worker:', cdnWorkerSrc);
-      }
-    }
+    const pdfjs = await loadPdfJs();
 
     const arrayBuffer = await file.arrayBuffer();
 
@@ -71,38 +133,64 @@ export async function extractTextFromPDF(file: File): Promise<string> {
 
     console.log('PDF loaded successfully, pages:', pdf.numPages);
 
-    let fullText = '';
+    const pages: PageText[] = [];
+    // Started on the first scanned page and shared by the rest
+    let ocrSession: Promise<OcrSession> | null = null;
+    let ocrUnavailable = false;
+
+    try {
+      for (let i = 1; i <= pdf.numPages; i++) {
+        try {
+          const page = await pdf.getPage(i);
+          const textContent = await page.getTextContent();
+
+          // Keep line breaks so headings, lists and tables can be recognised when chunking
+          let pageText = '';
+          for (const item of textContent.items) {
+            if ('str' in item) {
+              pageText += item.str + (item.hasEOL ? '\n' : ' ');
+            }
+          }
 
-    for (let i = 1; i <= pdf.numPages; i++) {
-      try {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
+          pageText = pageText.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
 
-        let pageText = '';
-        for (const item of textContent.items) {
-          if ('str' in item) {
-            pageText += item.str + ' ';
+          if (pageText) {
+            pages.push({ page: i, text: pageText });
+            console.log(`Extracted ${pageText.length} characters from page ${i}`);
+            continue;
           }
-        }
-
-        pageText = pageText.replace(/\s+/g, ' ').trim();
 
-        if (pageText) {
-          fullText += `\n[Page ${i}]\n${pageText}\n`;
-          console.log(`Extracted ${pageText.length} characters from page ${i}`);
+          onProgress?.(`Running OCR on page ${i} of ${pdf.numPages}...`);
+          ocrSession ??= createOcrSession();
+          const { text, confidence } = await (await ocrSession).recognizePage(page);
+          if (text) {
+            pages.push({ page: i, text, ocrConfidence: confidence });
+            console.log(`OCR read ${text.length} characters from page ${i} (confidence ${Math.round(confidence)})`);
+          }
+        } catch (pageError) {
+          console.warn(`Failed to extract text from page ${i}:`, pageError);
         }
-      } catch (pageError) {
-        console.warn(`Failed to extract text from page ${i}:`, pageError);
-        fullText += `\n[Page ${i}]\n[Error extracting text from this page]\n`;
+      }
+    } finally {
+      if (ocrSession) {
+        const session = await ocrSession.catch(() => null);
+        ocrUnavailable = !session;
+        await session?.terminate();
       }
     }
 
-    if (!fullText.trim()) {
-      throw new Error('No text content found in PDF. This might be a scanned document or image-based PDF.');
+    if (pages.length === 0) {
+      throw new Error(ocrUnavailable
+        ? 'This PDF has no text layer and OCR could not be started to read it. Please reload the page and try again.'
+        : 'No text content found in PDF, even with OCR. The pages may be blank or unreadable.');
+    }
+    if (ocrUnavailable) {
+      console.warn('OCR could not be started; scanned pages of this PDF were skipped');
     }
 
-    console.log('PDF processing completed successfully, total text length:', fullText.length);
-    return fullText;
+    const totalLength = pages.reduce((sum, page) => sum + page.text.length, 0);
+    console.log('PDF processing completed successfully, total text length:', totalLength);
+    return { pages, totalPages: pdf.numPages };
 
   } catch (error) {
     console.error('PDF processing error:', error);
@@ -125,7 +213,8 @@ export async function extractTextFromPDF(file: File): Promise<string> {
 }
 
 /**
- * Extract text from DOCX file
+ * Extract structured text from DOCX file. Mammoth converts the document to HTML, mapping Word's
+ * heading styles to h1-h6, which then becomes markdown headings, lists and pipe tables.
  */
 export async function extractTextFromDOCX(file: File): Promise<string> {
   if (typeof window === 'undefined') {
@@ -135,8 +224,14 @@ export async function extractTextFromDOCX(file: File): Promise<string> {
   // Dynamic import to prevent SSR issues
   const mammoth = (await import('mammoth')).default;
   const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  return result.value;
+  const result = await mammoth.convertToHtml({ arrayBuffer }, {
+    styleMap: ["p[style-name='Title'] => h1:fresh"],
+    // Images carry no text; skip inlining them as data URLs
+    convertImage: mammoth.images.imgElement(async () => ({ src: '' }))
+  });
+
+  const html = new DOMParser().parseFromString(result.value, 'text/html');
+  return htmlToStructuredText(html.body);
 }
 
 /**
@@ -150,80 +245,142 @@ export async function extractTextFromTXT(file: File): Promise<string> {
  * Split text into chunks for better processing
  */
 export function chunkText(text: string, maxChunkSize: number = 1000, overlap: number = 100): string[] {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  const chunks: string[] = [];
-  let currentChunk = '';
-
-  for (const sentence of sentences) {
-    const trimmedSentence = sentence.trim();
-    if (!trimmedSentence) continue;
-
-    const proposedChunk = currentChunk + (currentChunk ? '. ' : '') + trimmedSentence;
+  return chunkDocument([{ text }], 'sentence', { maxChunkSize, overlap }).map(chunk => chunk.content);
+}
 
-    if (proposedChunk.length <= maxChunkSize) {
-      currentChunk = proposedChunk;
-    } else {
-      if (currentChunk) {
-        chunks.push(currentChunk + '.');
+/**
+ * Mean OCR confidence of the pages a chunk spans, if any of them were scanned
+ */
+function chunkOcrConfidence(segments: ExtractedSegment[], page?: number, pageEnd?: number): number | undefined {
+  if (page === undefined) return undefined;
+  const confidences = segments
+    .filter(segment => segment.ocrConfidence !== undefined && segment.page !== undefined && segment.page >= page && segment.page <= (pageEnd ?? page))
+    .map(segment => segment.ocrConfidence!);
+  if (confidences.length === 0) return undefined;
+  return Math.round(confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length);
+}
 
-        // Add overlap from the end of current chunk
-        const words = currentChunk.split(' ');
-        const overlapWords = words.slice(-Math.min(overlap / 5, words.length / 2));
-        currentChunk = overlapWords.join(' ') + (overlapWords.length > 0 ? '. ' : '') + trimmedSentence;
-      } else {
-        // Handle very long sentences
-        currentChunk = trimmedSentence;
-      }
-    }
+const pdfExtractor: DocumentExtractor = {
+  type: 'pdf',
+  label: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  extract: async (file, { onProgress }) => {
+    const { pages, totalPages } = await extractPagesFromPDF(file, onProgress);
+    return { segments: pages, totalPages };
   }
+};
+
+const docxExtractor: DocumentExtractor = {
+  type: 'docx',
+  label: 'DOCX',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extract: async (file) => ({ segments: [{ text: await extractTextFromDOCX(file) }] })
+};
+
+const txtExtractor: DocumentExtractor = {
+  type: 'txt',
+  label: 'TXT',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  extract: async (file) => ({ segments: [{ text: await extractTextFromTXT(file) }] })
+};
+
+const extractors = new Map<string, DocumentExtractor>(
+  [
+    pdfExtractor,
+    docxExtractor,
+    txtExtractor,
+    markdownExtractor,
+    htmlExtractor,
+    epubExtractor,
+    pptxExtractor,
+    csvExtractor,
+    xlsxExtractor
+  ].map(extractor => [extractor.type, extractor])
+);
 
-  if (currentChunk) {
-    chunks.push(currentChunk + '.');
-  }
+/**
+ * Register an extractor for a new file format, replacing any extractor with the same type
+ */
+export function registerDocumentExtractor(extractor: DocumentExtractor): void {
+  extractors.set(extractor.type, extractor);
+}
 
-  return chunks.filter(chunk => chunk.trim().length > 10); // Filter out very short chunks
+/**
+ * List all registered document extractors
+ */
+export function listDocumentExtractors(): DocumentExtractor[] {
+  return Array.from(extractors.values());
 }
 
 /**
- * Process a document file and return structured chunks
+ * Find the extractor for a file. The extension decides first: browsers report MIME types
+ * inconsistently (an empty type for .epub, text/plain for .md, an Excel type for .csv).
  */
-export async function processDocument(file: File): Promise<ProcessedDocument> {
-  const fileType = getFileType(file);
-  let extractedText: string;
+export function getDocumentExtractor(file: File): DocumentExtractor | undefined {
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  const all = listDocumentExtractors();
+  return all.find(extractor => extractor.extensions.includes(extension))
+    ?? all.find(extractor => !!file.type && extractor.mimeTypes.includes(file.type));
+}
 
+/**
+ * Process a document file and return structured chunks
+ */
+export async function processDocument(
+  file: File,
+  chunkingStrategy: ChunkingStrategyName = DEFAULT_CHUNKING_STRATEGY,
+  onProgress?: (message: string) => void
+): Promise<ProcessedDocument> {
   try {
-    switch (fileType) {
-      case 'pdf':
-        extractedText = await extractTextFromPDF(file);
-        break;
-      case 'docx':
-        extractedText = await extractTextFromDOCX(file);
-        break;
-      case 'txt':
-        extractedText = await extractTextFromTXT(file);
-        break;
-      default:
-        throw new Error(`Unsupported file type: ${file.type}`);
+    const extractor = getDocumentExtractor(file);
+    if (!extractor) {
+      throw new Error(`Unsupported file type: ${file.type || file.name}`);
     }
 
-    const textChunks = chunkText(extractedText);
+    const { segments, totalPages, pageUnit } = await extractor.extract(file, { onProgress });
+
+    // Sheets and chapters are chunked one at a time, so no chunk mixes two of them
+    const groups: ExtractedSegment[][] = [];
+    for (const segment of segments) {
+      const group = groups[groups.length - 1];
+      if (!group || segment.location || group[0].location) groups.push([segment]);
+      else group.push(segment);
+    }
+
+    const textChunks = groups.flatMap(group =>
+      chunkDocument(group, chunkingStrategy).map(chunk => ({ ...chunk, location: group[0].location }))
+    );
     const documentId = uuidv4();
+    const slides = pageUnit === 'slide';
 
     const chunks: DocumentChunk[] = textChunks.map((chunk, index) => ({
       id: uuidv4(),
-      content: chunk,
+      content: chunk.content,
       metadata: {
         source: file.name,
+        page: slides ? undefined : chunk.page,
+        pageEnd: slides ? undefined : chunk.pageEnd,
+        slide: slides ? chunk.page : undefined,
+        slideEnd: slides ? chunk.pageEnd : undefined,
+        sheet: chunk.location?.sheet,
+        chapter: chunk.location?.chapter,
+        headingPath: chunk.headingPath.length > 0 ? chunk.headingPath : undefined,
         chunkIndex: index,
-        type: fileType
+        type: extractor.type,
+        ocrConfidence: chunkOcrConfidence(segments, chunk.page, chunk.pageEnd)
       }
     }));
 
     return {
       id: documentId,
       name: file.name,
-      type: fileType,
+      type: extractor.type,
       chunks,
+      totalPages,
+      chunkingStrategy,
       createdAt: new Date()
     };
 
@@ -233,46 +390,19 @@ export async function processDocument(file: File): Promise<ProcessedDocument> {
   }
 }
 
-/**
- * Get file type from file
- */
-function getFileType(file: File): 'pdf' | 'docx' | 'txt' {
-  if (file.type === 'application/pdf') return 'pdf';
-  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') return 'docx';
-  if (file.type === 'text/plain') return 'txt';
-
-  // Fallback to extension
-  const extension = file.name.toLowerCase().split('.').pop();
-  switch (extension) {
-    case 'pdf': return 'pdf';
-    case 'docx': return 'docx';
-    case 'txt': return 'txt';
-    default: throw new Error(`Unsupported file type: ${file.type}`);
-  }
-}
-
 /**
  * Validate file before processing
  */
 export function validateFile(file: File): { valid: boolean; error?: string } {
   const maxSize = 10 * 1024 * 1024; // 10MB
-  const supportedTypes = [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'text/plain'
-  ];
 
   if (file.size > maxSize) {
     return { valid: false, error: 'File size must be less than 10MB' };
   }
 
-  const extension = file.name.toLowerCase().split('.').pop();
-  const isValidType = supportedTypes.includes(file.type) ||
-                     ['pdf', 'docx', 'txt'].includes(extension || '');
-
-  if (!isValidType) {
-    return { valid: false, error: 'Supported formats: PDF, DOCX, TXT' };
+  if (!getDocumentExtractor(file)) {
+    return { valid: false, error: `Supported formats: ${listDocumentExtractors().map(extractor => extractor.label).join(', ')}` };
   }
 
   return { valid: true };
-}
\ No newline at end of file
+}
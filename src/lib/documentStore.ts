@@ -0,0 +1,122 @@
+import { ProcessedDocument } from './documentProcessor';
+import {
+  clearAllDocuments,
+  deleteDocument,
+  getAllDocuments,
+  hideDocument,
+  purgeHiddenDocuments,
+  unhideDocument
+} from './vectorDatabase';
+
+// How long a deleted document can be restored before its data is removed
+export const UNDO_DELETE_MS = 8000;
+
+export interface PendingDeletion {
+  document: ProcessedDocument;
+  expiresAt: number;
+}
+
+/**
+ * Uploaded documents as every component sees them
+ */
+export interface DocumentStoreState {
+  documents: ProcessedDocument[];
+  pendingDeletions: PendingDeletion[];
+  loaded: boolean;
+}
+
+let state: DocumentStoreState = { documents: [], pendingDeletions: [], loaded: false };
+const listeners = new Set<() => void>();
+const purgeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let loadPromise: Promise<void> | null = null;
+
+function setState(update: Partial<DocumentStoreState>): void {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToDocuments(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getDocumentStoreState(): DocumentStoreState {
+  return state;
+}
+
+/**
+ * Load documents once, first purging deletions that were still pending when the last session ended
+ */
+export function loadDocuments(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      await purgeHiddenDocuments();
+      await refreshDocuments();
+    })();
+    loadPromise.catch(() => {
+      loadPromise = null;
+    });
+  }
+  return loadPromise;
+}
+
+/**
+ * Re-read the document list, e.g. after an upload or re-embedding
+ */
+export async function refreshDocuments(): Promise<void> {
+  setState({ documents: await getAllDocuments(), loaded: true });
+}
+
+/**
+ * Remove a document from the list and from search right away; its data is deleted
+ * once the undo window passes
+ */
+export async function removeDocument(documentId: string): Promise<void> {
+  const document = state.documents.find(doc => doc.id === documentId);
+  if (!document) return;
+
+  await hideDocument(documentId);
+  setState({
+    documents: state.documents.filter(doc => doc.id !== documentId),
+    pendingDeletions: [...state.pendingDeletions, { document, expiresAt: Date.now() + UNDO_DELETE_MS }]
+  });
+
+  purgeTimers.set(documentId, setTimeout(() => purgeDocument(documentId), UNDO_DELETE_MS));
+}
+
+async function purgeDocument(documentId: string): Promise<void> {
+  purgeTimers.delete(documentId);
+  try {
+    await deleteDocument(documentId);
+  } catch (error) {
+    // The document stays hidden and is purged again on the next load
+    console.error('Error deleting document:', error);
+  }
+  setState({ pendingDeletions: state.pendingDeletions.filter(pending => pending.document.id !== documentId) });
+}
+
+/**
+ * Restore a document whose deletion is still pending
+ */
+export async function undoRemoveDocument(documentId: string): Promise<void> {
+  const timer = purgeTimers.get(documentId);
+  if (!timer) return;
+
+  clearTimeout(timer);
+  purgeTimers.delete(documentId);
+  await unhideDocument(documentId);
+  setState({ pendingDeletions: state.pendingDeletions.filter(pending => pending.document.id !== documentId) });
+  await refreshDocuments();
+}
+
+/**
+ * Delete every document immediately, including ones awaiting undo
+ */
+export async function removeAllDocuments(): Promise<void> {
+  purgeTimers.forEach(timer => clearTimeout(timer));
+  purgeTimers.clear();
+  await clearAllDocuments();
+  setState({ documents: [], pendingDeletions: [] });
+}
@@ -0,0 +1,133 @@
+export interface EmbeddingProgress {
+  completed: number;
+  total: number;
+}
+
+export interface EmbeddingPipelineOptions {
+  /** Number of texts sent in one embeddings request */
+  batchSize?: number;
+  /** Maximum number of requests in flight at once */
+  concurrency?: number;
+  /** Retries per batch for rate limits, server errors and network failures */
+  maxRetries?: number;
+  /** Delay before the first retry; doubled on every further attempt */
+  baseDelayMs?: number;
+  onProgress?: (progress: EmbeddingProgress) => void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<EmbeddingPipelineOptions, 'onProgress'>> = {
+  batchSize: 16,
+  concurrency: 3,
+  maxRetries: 5,
+  baseDelayMs: 1000
+};
+
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Error raised by an embeddings request, carrying the HTTP status when there was one
+ */
+export class EmbeddingRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  /** Rate limits and server errors are worth retrying, as are network failures (which pass `true`) */
+  retryable: boolean;
+
+  constructor(message: string, status?: number, retryAfterMs?: number, retryable?: boolean) {
+    super(message);
+    this.name = 'EmbeddingRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.retryable = retryable ?? (status === 408 || status === 429 || (status !== undefined && status >= 500));
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function withRetries<T>(task: () => Promise<T>, maxRetries: number, baseDelayMs: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      // Anything else, such as a malformed response, would fail the same way again
+      const retryable = error instanceof EmbeddingRequestError && error.retryable;
+      if (!retryable || attempt >= maxRetries) throw error;
+
+      // Exponential backoff with jitter, unless the server told us how long to wait
+      const backoff = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      const delay = error instanceof EmbeddingRequestError && error.retryAfterMs !== undefined
+        ? Math.min(MAX_RETRY_DELAY_MS, error.retryAfterMs)
+        : backoff;
+      console.warn(`Embedding batch failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${Math.round(delay)}ms:`, error);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Embed many texts by sending them in batches with a cap on concurrent requests.
+ * Failing batches are retried with backoff; if one still fails the whole run rejects,
+ * so callers never end up with a partially embedded document.
+ */
+export async function runEmbeddingPipeline(
+  texts: string[],
+  embedBatch: (batch: string[]) => Promise<number[][]>,
+  options: EmbeddingPipelineOptions = {}
+): Promise<number[][]> {
+  const { batchSize, concurrency, maxRetries, baseDelayMs } = { ...DEFAULT_OPTIONS, ...options };
+  const results: number[][] = new Array(texts.length);
+  const batchStarts: number[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    batchStarts.push(start);
+  }
+
+  let nextBatch = 0;
+  let completed = 0;
+  let failed = false;
+  options.onProgress?.({ completed, total: texts.length });
+
+  const worker = async () => {
+    while (!failed && nextBatch < batchStarts.length) {
+      const start = batchStarts[nextBatch++];
+      const batch = texts.slice(start, start + batchSize);
+
+      try {
+        const embeddings = await withRetries(() => embedBatch(batch), maxRetries, baseDelayMs);
+        // Checked per slot: a sparse array can have the right length with vectors missing
+        const missing = batch.findIndex((_, index) => !Array.isArray(embeddings[index]));
+        if (embeddings.length !== batch.length || missing !== -1) {
+          throw new EmbeddingRequestError(`Expected ${batch.length} embeddings, got ${embeddings.filter(Array.isArray).length}`);
+        }
+        embeddings.forEach((embedding, index) => {
+          results[start + index] = embedding;
+        });
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+
+      completed += batch.length;
+      options.onProgress?.({ completed, total: texts.length });
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, batchStarts.length) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,35 @@
+/**
+ * Where a stored vector came from. Vectors are only comparable when all three fields match.
+ */
+export interface EmbeddingProvenance {
+  model: string;
+  dimensions: number;
+  // Bumped when the way we build embedding inputs changes, so old vectors get re-embedded
+  version: number;
+}
+
+export const EMBEDDING_VERSION = 1;
+
+export const FALLBACK_EMBEDDING_MODEL = 'hash-fallback';
+
+/**
+ * Provenance of the local hash-based vectors used when no embedding API is available
+ */
+export function fallbackProvenance(dimensions: number): EmbeddingProvenance {
+  return { model: FALLBACK_EMBEDDING_MODEL, dimensions, version: EMBEDDING_VERSION };
+}
+
+/**
+ * Stable key identifying a family of mutually comparable vectors
+ */
+export function provenanceKey(provenance: EmbeddingProvenance): string {
+  return `${provenance.model}@${provenance.dimensions}/v${provenance.version}`;
+}
+
+export function isSameProvenance(a: EmbeddingProvenance | undefined, b: EmbeddingProvenance | undefined): boolean {
+  return !!a && !!b && provenanceKey(a) === provenanceKey(b);
+}
+
+export function isFallbackProvenance(provenance: EmbeddingProvenance | undefined): boolean {
+  return provenance?.model === FALLBACK_EMBEDDING_MODEL;
+}
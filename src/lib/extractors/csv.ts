@@ -0,0 +1,70 @@
+import { formatTable } from './structuredText';
+import { DocumentExtractor } from './types';
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter that splits the header line into the most cells
+ */
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n')).replace(/"[^"]*"/g, '');
+  return DELIMITERS.reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, any line ending) into rows of cells
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Tabular data such as budget and census figures, as pipe tables with the header repeated
+ */
+export const csvExtractor: DocumentExtractor = {
+  type: 'csv',
+  label: 'CSV',
+  extensions: ['csv', 'tsv'],
+  mimeTypes: ['text/csv', 'text/tab-separated-values'],
+  extract: async (file) => ({
+    segments: [{ text: formatTable(parseCsv(await file.text())) }]
+  })
+};
@@ -0,0 +1,57 @@
+import { htmlToStructuredText } from './html';
+import { elementsByName, loadZip, readZipXml, resolvePath } from './structuredText';
+import { DocumentExtractor, ExtractedSegment } from './types';
+
+const CHAPTER_MEDIA_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+function parseChapter(markup: string): Document {
+  const chapter = new DOMParser().parseFromString(markup, 'application/xhtml+xml');
+  // Not every book is well-formed XHTML; the HTML parser accepts the rest
+  return chapter.getElementsByTagName('parsererror').length > 0
+    ? new DOMParser().parseFromString(markup, 'text/html')
+    : chapter;
+}
+
+/**
+ * EPUB books, one segment per chapter in reading order. Each chapter is chunked on its own
+ * and its title recorded on the chunks.
+ */
+export const epubExtractor: DocumentExtractor = {
+  type: 'epub',
+  label: 'EPUB',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+  extract: async (file, { onProgress }) => {
+    const zip = await loadZip(file);
+    const container = await readZipXml(zip, 'META-INF/container.xml');
+    const packagePath = container && elementsByName(container, 'rootfile')[0]?.getAttribute('full-path');
+    const opf = packagePath ? await readZipXml(zip, packagePath) : null;
+    if (!packagePath || !opf) {
+      throw new Error(`${file.name} has no package document`);
+    }
+
+    const directory = packagePath.includes('/') ? packagePath.slice(0, packagePath.lastIndexOf('/') + 1) : '';
+    const manifest = new Map(elementsByName(opf, 'item').map(item => [item.getAttribute('id'), item]));
+    const spine = elementsByName(opf, 'itemref')
+      .map(itemref => manifest.get(itemref.getAttribute('idref')))
+      .filter((item): item is Element => !!item && CHAPTER_MEDIA_TYPES.has(item.getAttribute('media-type') ?? ''));
+
+    const segments: ExtractedSegment[] = [];
+    for (const [index, item] of spine.entries()) {
+      onProgress?.(`Reading chapter ${index + 1} of ${spine.length}...`);
+      const entry = zip.file(resolvePath(directory, item.getAttribute('href') ?? ''));
+      if (!entry) continue;
+
+      const chapter = parseChapter(await entry.async('text'));
+      const body = chapter.getElementsByTagName('body')[0];
+      const text = body ? htmlToStructuredText(body) : '';
+      if (!text) continue;
+
+      const heading = body.querySelector('h1, h2, h3');
+      const title = (heading?.textContent || chapter.title || `Chapter ${segments.length + 1}`).replace(/\s+/g, ' ').trim();
+      segments.push({ text, location: { chapter: title } });
+    }
+
+    return { segments };
+  }
+};
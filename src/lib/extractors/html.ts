@@ -0,0 +1,130 @@
+import { formatTable } from './structuredText';
+import { DocumentExtractor } from './types';
+
+// Page furniture that is not part of the article
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'svg', 'iframe']);
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'section', 'article', 'main', 'blockquote', 'pre', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'address']);
+const LIST_ELEMENTS = new Set(['ul', 'ol']);
+
+function elementText(element: Element): string {
+  return (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function isList(element: Element): boolean {
+  return LIST_ELEMENTS.has(element.localName.toLowerCase());
+}
+
+/**
+ * Convert HTML to structured text: headings become markdown headings, list items `- ` or `1. `
+ * lines (indented when nested) and tables pipe tables, so chunking keeps the page's sections
+ */
+export function htmlToStructuredText(root: Element): string {
+  const lines: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = inline.replace(/\s+/g, ' ').trim();
+    if (text) lines.push(text, '');
+    inline = '';
+  };
+
+  const writeList = (list: Element, depth: number) => {
+    const ordered = list.localName.toLowerCase() === 'ol';
+    let number = Number(list.getAttribute('start')) || 1;
+
+    for (const item of Array.from(list.children)) {
+      if (item.localName.toLowerCase() !== 'li') continue;
+
+      const nested = Array.from(item.children).filter(isList);
+      const own = item.cloneNode(true) as Element;
+      Array.from(own.children).filter(isList).forEach(child => child.remove());
+
+      const text = elementText(own);
+      if (text) lines.push(`${'  '.repeat(depth)}${ordered ? `${number}.` : '-'} ${text}`);
+      number++;
+      nested.forEach(child => writeList(child, depth + 1));
+    }
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.localName.toLowerCase();
+    if (SKIPPED_ELEMENTS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = elementText(element);
+      if (text) lines.push(`${'#'.repeat(Number(heading[1]))} ${text}`, '');
+      return;
+    }
+
+    if (LIST_ELEMENTS.has(tag)) {
+      flush();
+      writeList(element, 0);
+      // Close the list so the next paragraph is not read as part of it
+      lines.push('');
+      return;
+    }
+
+    if (tag === 'li') {
+      flush();
+      const text = elementText(element);
+      if (text) lines.push(`- ${text}`);
+      return;
+    }
+
+    if (tag === 'table') {
+      flush();
+      const rows = Array.from(element.querySelectorAll('tr'))
+        .filter(row => row.closest('table') === element)
+        .map(row => Array.from(row.children).map(elementText));
+      const table = formatTable(rows);
+      if (table) lines.push(table, '');
+      return;
+    }
+
+    if (tag === 'br') {
+      inline += ' ';
+      return;
+    }
+
+    const isBlock = BLOCK_ELEMENTS.has(tag);
+    if (isBlock) flush();
+    element.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(root);
+  flush();
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Saved web pages, such as PIB releases and newspaper articles. Only the article (or main
+ * content) is kept when the page marks one.
+ */
+export const htmlExtractor: DocumentExtractor = {
+  type: 'html',
+  label: 'HTML',
+  extensions: ['html', 'htm', 'xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extract: async (file) => {
+    const page = new DOMParser().parseFromString(await file.text(), 'text/html');
+    const root = page.querySelector('article') ?? page.querySelector('main') ?? page.body;
+    let text = root ? htmlToStructuredText(root) : '';
+
+    const title = (page.querySelector('meta[property="og:title"]')?.getAttribute('content') || page.title).trim();
+    if (title && !root?.querySelector('h1')) {
+      text = `# ${title}\n\n${text}`;
+    }
+
+    return { segments: [{ text }] };
+  }
+};
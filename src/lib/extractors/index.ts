@@ -0,0 +1,15 @@
+export type {
+  BuiltInDocumentType,
+  DocumentExtractor,
+  DocumentType,
+  ExtractedDocument,
+  ExtractedSegment,
+  ExtractOptions,
+  SegmentLocation
+} from './types';
+export { csvExtractor, parseCsv } from './csv';
+export { epubExtractor } from './epub';
+export { htmlExtractor, htmlToStructuredText } from './html';
+export { markdownExtractor } from './markdown';
+export { pptxExtractor } from './pptx';
+export { xlsxExtractor } from './xlsx';
@@ -0,0 +1,16 @@
+import { DocumentExtractor } from './types';
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n/;
+
+/**
+ * Markdown notes; headings, lists and pipe tables are already in the form the chunkers read
+ */
+export const markdownExtractor: DocumentExtractor = {
+  type: 'md',
+  label: 'Markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extract: async (file) => ({
+    segments: [{ text: (await file.text()).replace(FRONT_MATTER, '') }]
+  })
+};
@@ -0,0 +1,68 @@
+import { elementsByName, formatTable, loadZip, readRelationships, readZipXml } from './structuredText';
+import { DocumentExtractor, ExtractedSegment } from './types';
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+
+function paragraphText(paragraph: Element): string {
+  return elementsByName(paragraph, 't').map(t => t.textContent ?? '').join('').trim();
+}
+
+/**
+ * A slide's text: its title as a heading, then each shape's paragraphs and tables in order
+ */
+function slideText(slide: Document): string {
+  const lines: string[] = [];
+  let title = '';
+
+  for (const shape of elementsByName(slide, 'sp')) {
+    const placeholder = elementsByName(shape, 'ph')[0]?.getAttribute('type');
+    const paragraphs = elementsByName(shape, 'p').map(paragraphText).filter(Boolean);
+    if (!title && placeholder && TITLE_PLACEHOLDERS.has(placeholder)) {
+      title = paragraphs.join(' ');
+      continue;
+    }
+    // Bullet points are paragraphs of a text box
+    lines.push(...paragraphs.map(paragraph => paragraphs.length > 1 ? `- ${paragraph}` : paragraph), '');
+  }
+
+  for (const table of elementsByName(slide, 'tbl')) {
+    const rows = elementsByName(table, 'tr').map(row => elementsByName(row, 'tc').map(cell =>
+      elementsByName(cell, 'p').map(paragraphText).join(' ')
+    ));
+    lines.push(formatTable(rows), '');
+  }
+
+  return [title && `# ${title}`, '', ...lines].join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * PowerPoint decks, one segment per slide numbered like pages
+ */
+export const pptxExtractor: DocumentExtractor = {
+  type: 'pptx',
+  label: 'PowerPoint',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  extract: async (file) => {
+    const zip = await loadZip(file);
+    const presentation = await readZipXml(zip, 'ppt/presentation.xml');
+    if (!presentation) {
+      throw new Error(`${file.name} has no slides`);
+    }
+
+    const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+    const slideIds = elementsByName(presentation, 'sldId');
+
+    const segments: ExtractedSegment[] = [];
+    for (const [index, slideId] of slideIds.entries()) {
+      const relationshipId = slideId.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+        ?? slideId.getAttribute('r:id');
+      const path = relationshipId ? relationships.get(relationshipId) : undefined;
+      const slide = path ? await readZipXml(zip, path) : null;
+      const text = slide ? slideText(slide) : '';
+      if (text) segments.push({ text, page: index + 1 });
+    }
+
+    return { segments, totalPages: slideIds.length, pageUnit: 'slide' };
+  }
+};
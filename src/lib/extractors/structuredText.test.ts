@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { formatTable } from './structuredText';
+
+describe('formatTable', () => {
+  it('writes a Markdown table with a delimiter row under the header', () => {
+    expect(formatTable([['State', 'Capital'], ['Kerala', 'Thiruvananthapuram']])).toBe([
+      '| State | Capital |',
+      '| --- | --- |',
+      '| Kerala | Thiruvananthapuram |'
+    ].join('\n'));
+  });
+
+  it('pads short rows, escapes pipes and skips empty rows', () => {
+    expect(formatTable([['A', 'B', 'C'], ['', ''], ['x|y']])).toBe([
+      '| A | B | C |',
+      '| --- | --- | --- |',
+      '| x\\|y |  |  |'
+    ].join('\n'));
+  });
+
+  it('repeats the header and delimiter at the top of every block of rows', () => {
+    const rows = [['Year'], ...Array.from({ length: 30 }, (_, index) => [String(2000 + index)])];
+    const blocks = formatTable(rows).split('\n\n');
+
+    expect(blocks).toHaveLength(2);
+    for (const block of blocks) {
+      expect(block.split('\n').slice(0, 2)).toEqual(['| Year |', '| --- |']);
+    }
+  });
+
+  it('keeps a header-only table valid', () => {
+    expect(formatTable([['Only', 'Header']])).toBe('| Only | Header |\n| --- | --- |');
+  });
+});
@@ -0,0 +1,92 @@
+import JSZip from 'jszip';
+
+/**
+ * Helpers shared by the extractors for writing structured text and reading zipped XML formats
+ */
+
+// Rows per table block; the header is repeated at the top of each so every chunk can be read alone
+const ROWS_PER_TABLE_BLOCK = 25;
+
+function formatCell(cell: string): string {
+  return cell.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+function formatTableRow(cells: string[]): string {
+  return `| ${cells.map(formatCell).join(' | ')} |`;
+}
+
+/**
+ * Format rows as Markdown tables, the first row being the header
+ */
+export function formatTable(rows: string[][]): string {
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim()));
+  if (nonEmpty.length === 0) return '';
+
+  const [header, ...body] = nonEmpty;
+  const width = Math.max(...nonEmpty.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...new Array(width - row.length).fill('')];
+  const head = [formatTableRow(pad(header)), formatTableRow(new Array(width).fill('---'))];
+
+  if (body.length === 0) return head.join('\n');
+
+  const blocks: string[] = [];
+  for (let start = 0; start < body.length; start += ROWS_PER_TABLE_BLOCK) {
+    blocks.push([...head, ...body.slice(start, start + ROWS_PER_TABLE_BLOCK).map(row => formatTableRow(pad(row)))].join('\n'));
+  }
+  return blocks.join('\n\n');
+}
+
+export async function loadZip(file: File): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error(`${file.name} is not a valid ${file.name.split('.').pop()?.toUpperCase()} file`);
+  }
+}
+
+/**
+ * Parse an XML entry of a zip archive, or return null when it is missing
+ */
+export async function readZipXml(zip: JSZip, path: string): Promise<Document | null> {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  return new DOMParser().parseFromString(await entry.async('text'), 'application/xml');
+}
+
+/**
+ * Elements by local name, whatever namespace prefix the producer used
+ */
+export function elementsByName(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Map relationship ids to archive paths, from a `_rels/*.rels` part next to `partPath`
+ */
+export async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+  const directory = partPath.includes('/') ? partPath.slice(0, partPath.lastIndexOf('/') + 1) : '';
+  const fileName = partPath.slice(directory.length);
+  const rels = await readZipXml(zip, `${directory}_rels/${fileName}.rels`);
+  const targets = new Map<string, string>();
+
+  for (const relationship of rels ? elementsByName(rels, 'Relationship') : []) {
+    const id = relationship.getAttribute('Id');
+    const target = relationship.getAttribute('Target');
+    if (id && target) targets.set(id, resolvePath(directory, target));
+  }
+  return targets;
+}
+
+/**
+ * Resolve a relative archive path such as `../media/image1.png` against a directory
+ */
+export function resolvePath(directory: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts = directory.split('/').filter(Boolean);
+  for (const part of decodeURIComponent(target.split('#')[0]).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
@@ -0,0 +1,49 @@
+import type { TextSegment } from '../chunking';
+
+export type BuiltInDocumentType = 'pdf' | 'docx' | 'txt' | 'md' | 'html' | 'epub' | 'pptx' | 'csv' | 'xlsx';
+
+// Custom extractors can register any type name
+export type DocumentType = BuiltInDocumentType | (string & {});
+
+/**
+ * Where in a document a segment comes from, beyond its page
+ */
+export interface SegmentLocation {
+  // Spreadsheet sheet name
+  sheet?: string;
+  // EPUB chapter title
+  chapter?: string;
+}
+
+/**
+ * A run of text produced by an extractor
+ */
+export interface ExtractedSegment extends TextSegment {
+  // Set when the page had no text layer and was read with OCR
+  ocrConfidence?: number;
+  // Segments with a location are chunked on their own and the location is copied onto their chunks
+  location?: SegmentLocation;
+}
+
+export interface ExtractedDocument {
+  segments: ExtractedSegment[];
+  totalPages?: number;
+  // What the segments' page numbers count; slides are numbered like pages
+  pageUnit?: 'page' | 'slide';
+}
+
+export interface ExtractOptions {
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * Turns one file format into structured text: markdown-style headings, lists and
+ * pipe tables, which the chunkers recognise
+ */
+export interface DocumentExtractor {
+  type: DocumentType;
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  extract: (file: File, options: ExtractOptions) => Promise<ExtractedDocument>;
+}
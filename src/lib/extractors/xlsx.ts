@@ -0,0 +1,88 @@
+import JSZip from 'jszip';
+import { elementsByName, formatTable, loadZip, readRelationships, readZipXml } from './structuredText';
+import { DocumentExtractor, ExtractedSegment } from './types';
+
+/**
+ * Zero-based column of a cell reference such as `AB12`
+ */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * The text of a shared string or inline string, joining its rich text runs
+ */
+function stringText(element: Element): string {
+  return elementsByName(element, 't').map(t => t.textContent ?? '').join('');
+}
+
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const sharedStrings = await readZipXml(zip, 'xl/sharedStrings.xml');
+  return sharedStrings ? elementsByName(sharedStrings, 'si').map(stringText) : [];
+}
+
+function cellValue(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute('t');
+  if (type === 'inlineStr') return stringText(cell);
+
+  const value = elementsByName(cell, 'v')[0]?.textContent ?? '';
+  switch (type) {
+    case 's': return sharedStrings[Number(value)] ?? '';
+    case 'b': return value === '1' ? 'TRUE' : 'FALSE';
+    default: return value;
+  }
+}
+
+function readRows(sheet: Document, sharedStrings: string[]): string[][] {
+  return elementsByName(sheet, 'row').map(row => {
+    const cells: string[] = [];
+    for (const cell of elementsByName(row, 'c')) {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : cells.length;
+      while (cells.length < index) cells.push('');
+      cells[index] = cellValue(cell, sharedStrings);
+    }
+    return cells;
+  });
+}
+
+/**
+ * Excel workbooks, one segment per sheet so chunks never mix sheets. Cached values are read,
+ * so formulas appear as their last computed result.
+ */
+export const xlsxExtractor: DocumentExtractor = {
+  type: 'xlsx',
+  label: 'Excel',
+  extensions: ['xlsx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  extract: async (file) => {
+    const zip = await loadZip(file);
+    const workbook = await readZipXml(zip, 'xl/workbook.xml');
+    if (!workbook) {
+      throw new Error(`${file.name} has no workbook`);
+    }
+
+    const [sharedStrings, relationships] = await Promise.all([
+      readSharedStrings(zip),
+      readRelationships(zip, 'xl/workbook.xml')
+    ]);
+
+    const segments: ExtractedSegment[] = [];
+    for (const sheet of elementsByName(workbook, 'sheet')) {
+      const name = sheet.getAttribute('name') ?? `Sheet ${segments.length + 1}`;
+      const relationshipId = sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+        ?? sheet.getAttribute('r:id');
+      const path = relationshipId ? relationships.get(relationshipId) : undefined;
+      const sheetXml = path ? await readZipXml(zip, path) : null;
+      if (!sheetXml) continue;
+
+      const table = formatTable(readRows(sheetXml, sharedStrings));
+      if (table) {
+        segments.push({ text: `# ${name}\n\n${table}`, location: { sheet: name } });
+      }
+    }
+
+    return { segments };
+  }
+};
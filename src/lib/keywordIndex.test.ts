@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentChunk } from './documentProcessor';
+import { buildKeywordEntry, KeywordIndex, tokenize } from './keywordIndex';
+
+const chunk = (id: string, content: string, headingPath?: string[]): DocumentChunk => ({
+  id,
+  content,
+  metadata: { source: 'notes.txt', chunkIndex: 0, type: 'txt', headingPath }
+});
+
+describe('tokenize', () => {
+  it('lowercases, keeps numerals and Devanagari, and drops stopwords', () => {
+    expect(tokenize('What is Article 356 of the संविधान?')).toEqual(['article', '356', 'संविधान']);
+  });
+});
+
+describe('KeywordIndex', () => {
+  const build = () => {
+    const index = new KeywordIndex();
+    index.addDocument(buildKeywordEntry('polity', [
+      chunk('p1', 'President rule under Article 356 suspends the state government.'),
+      chunk('p2', 'Fundamental rights: Article 21 protects life. Article 21 also covers privacy.'),
+      chunk('p3', 'Directive principles guide state policy.', ['Article 21'])
+    ]));
+    index.addDocument(buildKeywordEntry('history', [
+      chunk('h1', 'The Government of India Act 1935 proposed a federation of provinces and princely states.')
+    ]));
+    return index;
+  };
+
+  it('ranks more occurrences of a term higher and weights rare terms above common ones', () => {
+    const index = build();
+
+    expect(index.search('article 21', 10).map(hit => hit.chunkId)).toEqual(['p2', 'p3', 'p1']);
+
+    // "356" appears in one chunk, "article" in three, so the rare term decides the ranking
+    const [top, next] = index.search('article 356', 10);
+    expect(top.chunkId).toBe('p1');
+    expect(top.score).toBeGreaterThan(next.score * 2);
+  });
+
+  it('indexes heading paths with the chunk text', () => {
+    expect(build().search('article 21 directive', 1)[0].chunkId).toBe('p3');
+  });
+
+  it('forgets a deleted document and rescales the remaining scores', () => {
+    const index = build();
+    const before = index.search('government', 10);
+    expect(before.map(hit => hit.chunkId)).toEqual(expect.arrayContaining(['p1', 'h1']));
+
+    index.removeDocument('polity');
+
+    expect(index.size).toBe(1);
+    expect(index.hasDocument('polity')).toBe(false);
+    expect(index.search('article', 10)).toEqual([]);
+    const [after] = index.search('government', 10);
+    expect(after.chunkId).toBe('h1');
+    expect(after.score).not.toBeCloseTo(before.find(hit => hit.chunkId === 'h1')!.score);
+  });
+
+  it('replaces a document that is added again', () => {
+    const index = build();
+    index.addDocument(buildKeywordEntry('history', [chunk('h2', 'Quit India movement of 1942.')]));
+
+    expect(index.size).toBe(4);
+    expect(index.search('1935', 10)).toEqual([]);
+    expect(index.search('1942', 10).map(hit => hit.chunkId)).toEqual(['h2']);
+  });
+});
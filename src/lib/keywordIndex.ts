@@ -0,0 +1,145 @@
+import { DocumentChunk } from './documentProcessor';
+
+// BM25 parameters: term frequency saturation and document length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'these', 'this', 'to', 'was', 'were', 'which', 'with',
+  'what', 'when', 'where', 'who', 'why', 'how', 'do', 'does', 'did', 'can', 'about', 'explain', 'tell', 'me'
+]);
+
+// Latin letters and digits, plus the Devanagari block so Hindi text is indexed too
+const TOKEN_PATTERN = /[a-z0-9ऀ-ॿ]+/g;
+
+/**
+ * Keyword statistics for one chunk, persisted alongside the document
+ */
+export interface KeywordChunkEntry {
+  chunkId: string;
+  length: number;
+  terms: Record<string, number>;
+}
+
+/**
+ * Keyword statistics for every chunk of a document
+ */
+export interface KeywordDocumentEntry {
+  documentId: string;
+  chunks: KeywordChunkEntry[];
+}
+
+export interface KeywordHit {
+  chunkId: string;
+  score: number;
+}
+
+/**
+ * Split text into lowercase index terms. Numbers are kept, so "73rd Amendment"
+ * and "Article 356" match on their numerals.
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.normalize('NFKC').toLowerCase().match(TOKEN_PATTERN) ?? [];
+  return tokens.filter(token => !STOPWORDS.has(token));
+}
+
+/**
+ * Build the keyword entry for a document at storage time
+ */
+export function buildKeywordEntry(documentId: string, chunks: DocumentChunk[]): KeywordDocumentEntry {
+  return {
+    documentId,
+    chunks: chunks.map(chunk => {
+      // Section headings are indexed too, so "Article 21" finds chunks filed under it
+      const tokens = tokenize([...(chunk.metadata.headingPath ?? []), chunk.content].join(' '));
+      const terms: Record<string, number> = {};
+      for (const token of tokens) {
+        terms[token] = (terms[token] ?? 0) + 1;
+      }
+      return { chunkId: chunk.id, length: tokens.length, terms };
+    })
+  };
+}
+
+/**
+ * In-memory BM25 index over chunks, updated a document at a time
+ */
+export class KeywordIndex {
+  private postings = new Map<string, Map<string, number>>();
+  private chunkLengths = new Map<string, number>();
+  private documentChunks = new Map<string, string[]>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.chunkLengths.size;
+  }
+
+  hasDocument(documentId: string): boolean {
+    return this.documentChunks.has(documentId);
+  }
+
+  addDocument(entry: KeywordDocumentEntry): void {
+    this.removeDocument(entry.documentId);
+
+    for (const chunk of entry.chunks) {
+      this.chunkLengths.set(chunk.chunkId, chunk.length);
+      this.totalLength += chunk.length;
+
+      for (const [term, frequency] of Object.entries(chunk.terms)) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(chunk.chunkId, frequency);
+      }
+    }
+
+    this.documentChunks.set(entry.documentId, entry.chunks.map(chunk => chunk.chunkId));
+  }
+
+  removeDocument(documentId: string): void {
+    const chunkIds = this.documentChunks.get(documentId);
+    if (!chunkIds) return;
+
+    const removed = new Set(chunkIds);
+    for (const chunkId of chunkIds) {
+      this.totalLength -= this.chunkLengths.get(chunkId) ?? 0;
+      this.chunkLengths.delete(chunkId);
+    }
+    for (const [term, posting] of this.postings) {
+      for (const chunkId of posting.keys()) {
+        if (removed.has(chunkId)) posting.delete(chunkId);
+      }
+      if (posting.size === 0) this.postings.delete(term);
+    }
+
+    this.documentChunks.delete(documentId);
+  }
+
+  search(query: string, topK: number): KeywordHit[] {
+    const chunkCount = this.chunkLengths.size;
+    if (chunkCount === 0) return [];
+
+    const averageLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [chunkId, frequency] of posting) {
+        const length = this.chunkLengths.get(chunkId) ?? 0;
+        const normalised = frequency * (BM25_K1 + 1) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        scores.set(chunkId, (scores.get(chunkId) ?? 0) + idf * normalised);
+      }
+    }
+
+    return Array.from(scores, ([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
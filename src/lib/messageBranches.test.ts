@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from './conversations';
+import { forkConversation, getBranchCount, getBranchIndex, memoryBeforeFork, switchBranch } from './messageBranches';
+
+const message = (id: string, role: Message['role'], content = `Message ${id}`): Message => ({
+  id,
+  role,
+  content,
+  timestamp: new Date(2026, 9, 19)
+});
+
+const thread = [message('1', 'user'), message('2', 'assistant'), message('3', 'user'), message('4', 'assistant')];
+const ids = (messages: Message[]) => messages.map(({ id }) => id);
+
+describe('forkConversation', () => {
+  it('replaces the tail with the new message and keeps the old tail as a branch', () => {
+    const forked = forkConversation(thread, 2, message('5', 'user', 'Edited question'));
+
+    expect(ids(forked)).toEqual(['1', '2', '5']);
+    expect(getBranchCount(forked[2])).toBe(2);
+    expect(getBranchIndex(forked[2])).toBe(1);
+    expect(forked[2].branches).toEqual([[thread[2], thread[3]], []]);
+  });
+
+  it('adds further forks at the same message as new branches', () => {
+    const once = forkConversation(thread, 1, message('5', 'assistant'));
+    const twice = forkConversation(once, 1, message('6', 'assistant'));
+
+    expect(ids(twice)).toEqual(['1', '6']);
+    expect(getBranchIndex(twice[1])).toBe(2);
+    expect(twice[1].branches!.map(ids)).toEqual([['2', '3', '4'], ['5'], []]);
+  });
+
+  it('appends when there is no message at the index yet', () => {
+    expect(ids(forkConversation(thread, 4, message('5', 'user')))).toEqual(['1', '2', '3', '4', '5']);
+  });
+});
+
+describe('switchBranch', () => {
+  it('swaps the active continuation and back again without losing either', () => {
+    const forked = [...forkConversation(thread, 2, message('5', 'user')), message('6', 'assistant')];
+
+    const original = switchBranch(forked, 2, 0);
+    expect(ids(original)).toEqual(['1', '2', '3', '4']);
+    expect(getBranchIndex(original[2])).toBe(0);
+    expect(original[2].branches!.map(ids)).toEqual([[], ['5', '6']]);
+
+    const back = switchBranch(original, 2, 1);
+    expect(ids(back)).toEqual(['1', '2', '5', '6']);
+    expect(back[2].branches!.map(ids)).toEqual([['3', '4'], []]);
+  });
+
+  it('keeps branches nested further down the stored continuation', () => {
+    const nested = forkConversation(thread, 3, message('5', 'assistant'));
+    const forked = forkConversation(nested, 0, message('6', 'user'));
+
+    const restored = switchBranch(forked, 0, 0);
+    expect(ids(restored)).toEqual(['1', '2', '3', '5']);
+    expect(restored[3].branches!.map(ids)).toEqual([['4'], []]);
+  });
+
+  it('ignores the active branch, missing branches and messages that never forked', () => {
+    const forked = forkConversation(thread, 2, message('5', 'user'));
+
+    expect(switchBranch(forked, 2, 1)).toBe(forked);
+    expect(switchBranch(forked, 2, 7)).toBe(forked);
+    expect(switchBranch(thread, 1, 0)).toBe(thread);
+  });
+});
+
+describe('memoryBeforeFork', () => {
+  const memory = { summary: 'Articles 14 and 21 were covered.', coveredCount: 2 };
+
+  it('drops the summary when the fork changes a message it covers', () => {
+    expect(memoryBeforeFork(thread, 0, memory)).toBeNull();
+    expect(memoryBeforeFork(thread, 1, memory)).toBeNull();
+  });
+
+  it('keeps the summary when the fork starts after the covered messages', () => {
+    expect(memoryBeforeFork(thread, 2, memory)).toBe(memory);
+    expect(memoryBeforeFork(thread, 3, memory)).toBe(memory);
+    expect(memoryBeforeFork(thread, 1, null)).toBeNull();
+  });
+
+  it('counts only the messages that were sent to the model', () => {
+    const withWelcome = [message('welcome', 'assistant'), ...thread];
+    const isSent = (candidate: Message) => candidate.id !== 'welcome';
+
+    expect(memoryBeforeFork(withWelcome, 2, memory, isSent)).toBeNull();
+    expect(memoryBeforeFork(withWelcome, 3, memory, isSent)).toBe(memory);
+  });
+
+  it('stays cleared after an edit inside the summary switches back to the original branch', () => {
+    // Switching reuses the memory left by the edit, so the summary is rebuilt rather than revived
+    const forked = forkConversation(thread, 0, message('5', 'user'));
+    const forkMemory = memoryBeforeFork(thread, 0, memory);
+
+    expect(forkMemory).toBeNull();
+    expect(memoryBeforeFork(forked, 0, forkMemory)).toBeNull();
+    expect(ids(switchBranch(forked, 0, 0))).toEqual(ids(thread));
+  });
+});
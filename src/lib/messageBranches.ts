@@ -0,0 +1,69 @@
+import { ConversationMemory } from './chatProtocol';
+import { Message } from './conversations';
+
+/**
+ * Conversations are trees: regenerating an answer or editing a question forks the thread at
+ * that message. The message list in state is always the active path. The first message of a
+ * fork carries every alternative continuation in `branches`, ordered by creation; the slot of
+ * the active continuation is left empty, since its messages are the rest of the live list.
+ */
+
+function withoutBranches({ branches, branchIndex, ...message }: Message): Message {
+  return message;
+}
+
+export function getBranchCount(message: Message): number {
+  return message.branches?.length ?? 1;
+}
+
+export function getBranchIndex(message: Message): number {
+  return message.branchIndex ?? 0;
+}
+
+/**
+ * Replace the messages from index onwards with a new continuation starting at replacement,
+ * keeping the current continuation as a branch
+ */
+export function forkConversation(messages: Message[], index: number, replacement: Message): Message[] {
+  const first = messages[index];
+  if (!first) return [...messages, replacement];
+
+  const branches = [...(first.branches ?? [[]])];
+  branches[getBranchIndex(first)] = [withoutBranches(first), ...messages.slice(index + 1)];
+  branches.push([]);
+
+  return [
+    ...messages.slice(0, index),
+    { ...withoutBranches(replacement), branches, branchIndex: branches.length - 1 }
+  ];
+}
+
+/**
+ * Make another stored continuation of the fork at index the active path
+ */
+export function switchBranch(messages: Message[], index: number, target: number): Message[] {
+  const first = messages[index];
+  const stored = first?.branches?.[target];
+  if (!first?.branches || !stored?.length || target === getBranchIndex(first)) return messages;
+
+  const branches = [...first.branches];
+  branches[getBranchIndex(first)] = [withoutBranches(first), ...messages.slice(index + 1)];
+  branches[target] = [];
+
+  const [next, ...rest] = stored;
+  return [...messages.slice(0, index), { ...next, branches, branchIndex: target }, ...rest];
+}
+
+/**
+ * The rolling summary a fork at index can keep. It only stays valid while the messages it
+ * covers are unchanged, so it is dropped when the fork starts inside them. `isSent` picks the
+ * messages counted by `coveredCount`.
+ */
+export function memoryBeforeFork(
+  messages: Message[],
+  index: number,
+  memory: ConversationMemory | null,
+  isSent: (message: Message) => boolean = () => true
+): ConversationMemory | null {
+  return memory && messages.slice(0, index).filter(isSent).length < memory.coveredCount ? null : memory;
+}
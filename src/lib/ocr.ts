@@ -0,0 +1,85 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+
+/**
+ * Local OCR for scanned PDF pages. Pages are rendered with pdf.js and read by tesseract.js,
+ * which runs in a Web Worker. The worker script and WebAssembly engine are served by
+ * /api/tesseract and the English and Hindi language data by /api/tessdata, so nothing is
+ * fetched from a CDN.
+ */
+export interface OcrResult {
+  text: string;
+  // Tesseract's mean word confidence for the page, 0-100
+  confidence: number;
+}
+
+export interface OcrSession {
+  recognizePage: (page: PDFPageProxy) => Promise<OcrResult>;
+  terminate: () => Promise<void>;
+}
+
+export const OCR_LANGUAGES = ['eng', 'hin'];
+
+const LANGUAGE_DATA_URL = '/api/tessdata';
+const WORKER_URL = '/api/tesseract/worker.min.js';
+// A directory: the worker appends the name of the core build the browser supports
+const CORE_URL = '/api/tesseract';
+
+// Pages are rendered at about 200 dpi; lower resolutions cost accuracy, higher ones mostly time
+const OCR_RENDER_SCALE = 200 / 72;
+
+/**
+ * Render a page to a canvas for recognition
+ */
+async function renderPage(page: PDFPageProxy): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+}
+
+/**
+ * Start an OCR worker. It loads the language data once, so one session should read every
+ * scanned page of a document and then be terminated.
+ */
+export async function createOcrSession(): Promise<OcrSession> {
+  if (typeof window === 'undefined') {
+    throw new Error('OCR only available in browser environment');
+  }
+
+  let worker: TesseractWorker;
+  try {
+    // Dynamic import to prevent SSR issues
+    const { createWorker } = await import('tesseract.js');
+    worker = await createWorker(OCR_LANGUAGES, undefined, {
+      langPath: LANGUAGE_DATA_URL,
+      gzip: true,
+      workerPath: WORKER_URL,
+      corePath: CORE_URL,
+      // Load the worker from its own URL rather than a blob, which a CSP would have to allow
+      workerBlobURL: false
+    });
+  } catch (error) {
+    console.error('Error starting OCR worker:', error);
+    throw new Error('Failed to start OCR');
+  }
+
+  return {
+    recognizePage: async (page: PDFPageProxy) => {
+      const canvas = await renderPage(page);
+      try {
+        const { data } = await worker.recognize(canvas);
+        return { text: data.text.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim(), confidence: data.confidence };
+      } finally {
+        // Release the bitmap right away; scans can run to hundreds of pages
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+    terminate: async () => {
+      await worker.terminate();
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { formatRetrievalScores, reciprocalRankFusion } from './rankFusion';
+
+describe('reciprocalRankFusion', () => {
+  it('ranks chunks found by both retrievers above those found by one', () => {
+    const fused = reciprocalRankFusion(
+      [{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }, { id: 'c', score: 0.7 }],
+      [{ id: 'c', score: 12 }, { id: 'd', score: 9 }]
+    );
+
+    const order = Array.from(fused).sort((x, y) => y[1].fused - x[1].fused).map(([id]) => id);
+    expect(order).toEqual(['c', 'a', 'b', 'd']);
+    // Equal ranks in different lists count the same
+    expect(fused.get('b')!.fused).toBe(fused.get('d')!.fused);
+    expect(fused.get('c')).toEqual({
+      fused: 1 / 63 + 1 / 61,
+      vector: { score: 0.7, rank: 3 },
+      keyword: { score: 12, rank: 1 }
+    });
+  });
+
+  it('uses only ranks, so raw score scales do not matter', () => {
+    const fused = reciprocalRankFusion([{ id: 'a', score: 0.1 }], [{ id: 'b', score: 1000 }], 10);
+
+    expect(fused.get('a')!.fused).toBe(fused.get('b')!.fused);
+    expect(fused.get('a')!.fused).toBeCloseTo(1 / 11);
+  });
+});
+
+describe('formatRetrievalScores', () => {
+  it('lists each retriever that found the chunk', () => {
+    expect(formatRetrievalScores({ fused: 0.0323, vector: { score: 0.812, rank: 1 }, keyword: { score: 7.123, rank: 3 } }))
+      .toBe('vec #1 0.81 · kw #3 7.12 · rrf 0.032');
+    expect(formatRetrievalScores({ fused: 0.0164, keyword: { score: 2, rank: 1 } })).toBe('kw #1 2.00 · rrf 0.016');
+  });
+});
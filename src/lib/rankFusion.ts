@@ -0,0 +1,54 @@
+/**
+ * How a retrieved chunk scored in each retriever and after fusion
+ */
+export interface RetrievalScores {
+  fused: number;
+  vector?: { score: number; rank: number };
+  keyword?: { score: number; rank: number };
+}
+
+export interface RankedHit {
+  id: string;
+  score: number;
+}
+
+// Standard RRF constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+/**
+ * Merge vector and keyword rankings with reciprocal rank fusion:
+ * each list contributes 1 / (k + rank) for every chunk it returned.
+ */
+export function reciprocalRankFusion(
+  vectorHits: RankedHit[],
+  keywordHits: RankedHit[],
+  k: number = RRF_K
+): Map<string, RetrievalScores> {
+  const fused = new Map<string, RetrievalScores>();
+
+  const add = (hits: RankedHit[], retriever: 'vector' | 'keyword') => {
+    hits.forEach((hit, index) => {
+      const rank = index + 1;
+      const scores = fused.get(hit.id) ?? { fused: 0 };
+      scores[retriever] = { score: hit.score, rank };
+      scores.fused += 1 / (k + rank);
+      fused.set(hit.id, scores);
+    });
+  };
+
+  add(vectorHits, 'vector');
+  add(keywordHits, 'keyword');
+
+  return fused;
+}
+
+/**
+ * Compact score breakdown for display, e.g. "vec #1 0.81 · kw #3 7.12 · rrf 0.032"
+ */
+export function formatRetrievalScores(scores: RetrievalScores): string {
+  const parts: string[] = [];
+  if (scores.vector) parts.push(`vec #${scores.vector.rank} ${scores.vector.score.toFixed(2)}`);
+  if (scores.keyword) parts.push(`kw #${scores.keyword.rank} ${scores.keyword.score.toFixed(2)}`);
+  parts.push(`rrf ${scores.fused.toFixed(3)}`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,87 @@
+import { ChatErrorCode, ChatErrorInfo } from '@/lib/chatProtocol';
+
+const STATUS_BY_CODE: Record<ChatErrorCode, number> = {
+  invalid_request: 400,
+  unknown_profile: 400,
+  not_configured: 503,
+  origin_not_allowed: 403,
+  quota_exceeded: 429,
+  upstream_auth: 502,
+  rate_limited: 429,
+  upstream_unavailable: 503,
+  upstream_error: 502,
+  timeout: 504,
+  stream_interrupted: 502,
+  network_error: 502,
+  internal_error: 500
+};
+
+/**
+ * A failure with a protocol error code, thrown anywhere in the chat pipeline
+ */
+export class ChatRequestError extends Error {
+  code: ChatErrorCode;
+  retryAfter?: number;
+
+  constructor(code: ChatErrorCode, message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'ChatRequestError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Seconds from a Retry-After (or retry-after-ms) header, which may also hold an HTTP date
+ */
+function parseRetryAfter(headers: Headers): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (milliseconds > 0) return Math.ceil(milliseconds / 1000);
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Classify a provider's non-OK HTTP response
+ */
+export function providerResponseError(provider: string, response: Response): ChatRequestError {
+  const status = response.status;
+
+  if (status === 401 || status === 403) {
+    return new ChatRequestError('upstream_auth', `The ${provider} provider rejected the configured credentials`);
+  }
+  if (status === 429) {
+    return new ChatRequestError('rate_limited', `The ${provider} provider is rate limiting requests`, parseRetryAfter(response.headers));
+  }
+  if (status === 408 || status === 504) {
+    return new ChatRequestError('timeout', `The ${provider} provider timed out`);
+  }
+  if (status >= 500) {
+    return new ChatRequestError('upstream_unavailable', `The ${provider} provider is unavailable (${status})`, parseRetryAfter(response.headers));
+  }
+  return new ChatRequestError('upstream_error', `The ${provider} provider refused the request (${status})`);
+}
+
+/**
+ * Describe any thrown value as protocol error details. Unexpected errors get a generic
+ * message so internals never reach the browser.
+ */
+export function toChatErrorInfo(error: unknown, requestId: string): ChatErrorInfo {
+  if (error instanceof ChatRequestError) {
+    return { code: error.code, message: error.message, retryAfter: error.retryAfter, requestId };
+  }
+  // fetch rejects with a TypeError when the provider cannot be reached at all
+  if (error instanceof TypeError) {
+    return { code: 'upstream_unavailable', message: 'The model provider could not be reached', requestId };
+  }
+  return { code: 'internal_error', message: 'Something went wrong while processing the request', requestId };
+}
+
+export function chatErrorStatus(info: ChatErrorInfo): number {
+  return STATUS_BY_CODE[info.code];
+}
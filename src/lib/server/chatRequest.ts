@@ -0,0 +1,180 @@
+import { ChatReference, DEFAULT_CHAT_PROFILE_ID } from '@/lib/chatProfiles';
+import { ConversationMemory } from '@/lib/chatProtocol';
+import { ChatRequestError } from './chatErrors';
+import { ChatTurn } from './contextBudget';
+import { isMemorySignatureValid } from './memorySignature';
+
+/**
+ * Validation of the /api/chat request body. Everything the client sends is checked here
+ * before it reaches a prompt; nothing else in the route reads the raw body.
+ */
+export interface ChatRequestBody {
+  profileId: string;
+  messages: ChatTurn[];
+  references: ChatReference[];
+  memory: ConversationMemory;
+}
+
+export const CHAT_REQUEST_LIMITS = {
+  maxBodyBytes: 1024 * 1024,
+  maxMessages: 200,
+  maxMessageLength: 32000,
+  maxReferences: 20,
+  maxReferenceLength: 8000,
+  maxSummaryLength: 8000
+};
+
+// Clients may only send conversation turns; system instructions come from the server's profiles
+const CLIENT_ROLES = new Set(['user', 'assistant']);
+
+function invalid(message: string): ChatRequestError {
+  return new ChatRequestError('invalid_request', message);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function parseMessages(value: unknown): ChatTurn[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalid('"messages" must be a non-empty array');
+  }
+  if (value.length > CHAT_REQUEST_LIMITS.maxMessages) {
+    throw invalid(`At most ${CHAT_REQUEST_LIMITS.maxMessages} messages per request`);
+  }
+
+  const messages = value.map((message, index): ChatTurn => {
+    if (!isRecord(message)) {
+      throw invalid(`messages[${index}] must be an object`);
+    }
+    if (typeof message.role !== 'string' || !CLIENT_ROLES.has(message.role)) {
+      throw invalid(`messages[${index}].role must be "user" or "assistant"`);
+    }
+    if (typeof message.content !== 'string') {
+      throw invalid(`messages[${index}].content must be a string`);
+    }
+    if (message.content.length > CHAT_REQUEST_LIMITS.maxMessageLength) {
+      throw invalid(`messages[${index}] is longer than ${CHAT_REQUEST_LIMITS.maxMessageLength} characters`);
+    }
+    return { role: message.role as ChatTurn['role'], content: message.content };
+  });
+
+  const last = messages[messages.length - 1];
+  if (last.role !== 'user' || !last.content.trim()) {
+    throw invalid('The last message must be a non-empty user message');
+  }
+  return messages;
+}
+
+function parseReferences(value: unknown): ChatReference[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw invalid('"references" must be an array');
+  }
+  if (value.length > CHAT_REQUEST_LIMITS.maxReferences) {
+    throw invalid(`At most ${CHAT_REQUEST_LIMITS.maxReferences} references per request`);
+  }
+
+  return value.map((reference, index): ChatReference => {
+    if (!isRecord(reference) || typeof reference.source !== 'string' || typeof reference.content !== 'string') {
+      throw invalid(`references[${index}] must have string "source" and "content" fields`);
+    }
+    if (reference.content.length > CHAT_REQUEST_LIMITS.maxReferenceLength) {
+      throw invalid(`references[${index}] is longer than ${CHAT_REQUEST_LIMITS.maxReferenceLength} characters`);
+    }
+    for (const field of ['page', 'pageEnd', 'slide', 'slideEnd'] as const) {
+      if (reference[field] !== undefined && !isPositiveInteger(reference[field])) {
+        throw invalid(`references[${index}].${field} must be a positive integer`);
+      }
+    }
+    for (const field of ['sheet', 'chapter'] as const) {
+      if (reference[field] !== undefined && typeof reference[field] !== 'string') {
+        throw invalid(`references[${index}].${field} must be a string`);
+      }
+    }
+    if (reference.headingPath !== undefined
+      && (!Array.isArray(reference.headingPath) || !reference.headingPath.every(heading => typeof heading === 'string'))) {
+      throw invalid(`references[${index}].headingPath must be an array of strings`);
+    }
+
+    return {
+      source: reference.source.slice(0, 200),
+      content: reference.content,
+      page: reference.page as number | undefined,
+      pageEnd: reference.pageEnd as number | undefined,
+      slide: reference.slide as number | undefined,
+      slideEnd: reference.slideEnd as number | undefined,
+      sheet: (reference.sheet as string | undefined)?.slice(0, 200),
+      chapter: (reference.chapter as string | undefined)?.slice(0, 200),
+      headingPath: reference.headingPath as string[] | undefined
+    };
+  });
+}
+
+function parseMemory(value: unknown, messageCount: number): ConversationMemory {
+  if (value === undefined || value === null) {
+    return { summary: '', coveredCount: 0 };
+  }
+  if (!isRecord(value) || typeof value.summary !== 'string' || !Number.isInteger(value.coveredCount) || (value.coveredCount as number) < 0) {
+    throw invalid('"memory" must have a string "summary" and a non-negative integer "coveredCount"');
+  }
+  if (value.summary.length > CHAT_REQUEST_LIMITS.maxSummaryLength) {
+    throw invalid(`memory.summary is longer than ${CHAT_REQUEST_LIMITS.maxSummaryLength} characters`);
+  }
+  if (value.signature !== undefined && typeof value.signature !== 'string') {
+    throw invalid('memory.signature must be a string');
+  }
+
+  // Only summaries this server wrote reach the prompt; anything else is dropped and the
+  // whole history is planned again, so the summary is rebuilt if it is still needed
+  const coveredCount = value.coveredCount as number;
+  if (value.summary && !(value.signature && isMemorySignatureValid(value.summary, coveredCount, value.signature))) {
+    return { summary: '', coveredCount: 0 };
+  }
+
+  // The newest message is always sent verbatim
+  return { summary: value.summary, coveredCount: Math.min(coveredCount, messageCount - 1) };
+}
+
+/**
+ * Read and validate the request body, throwing an `invalid_request` ChatRequestError
+ * that names the offending field
+ */
+export async function parseChatRequest(req: Request): Promise<ChatRequestBody> {
+  const declaredLength = Number(req.headers.get('content-length'));
+  if (declaredLength > CHAT_REQUEST_LIMITS.maxBodyBytes) {
+    throw invalid(`The request body must be smaller than ${CHAT_REQUEST_LIMITS.maxBodyBytes} bytes`);
+  }
+
+  // The header can be missing or wrong, so the body is measured as well
+  const text = await req.text();
+  if (new TextEncoder().encode(text).length > CHAT_REQUEST_LIMITS.maxBodyBytes) {
+    throw invalid(`The request body must be smaller than ${CHAT_REQUEST_LIMITS.maxBodyBytes} bytes`);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw invalid('The request body must be JSON');
+  }
+  if (!isRecord(body)) {
+    throw invalid('The request body must be a JSON object');
+  }
+
+  if (body.profileId !== undefined && typeof body.profileId !== 'string') {
+    throw invalid('"profileId" must be a string');
+  }
+
+  const messages = parseMessages(body.messages);
+  return {
+    profileId: typeof body.profileId === 'string' ? body.profileId : DEFAULT_CHAT_PROFILE_ID,
+    messages,
+    references: parseReferences(body.references),
+    memory: parseMemory(body.memory, messages.length)
+  };
+}
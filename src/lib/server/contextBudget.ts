@@ -0,0 +1,147 @@
+import { ChatReference } from '@/lib/chatProfiles';
+import { ChatUsage } from '@/lib/chatProtocol';
+import { estimateTokens } from '@/lib/tokens';
+import { completeChat } from './providers';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Context windows of the models we expect; CHAT_CONTEXT_WINDOW overrides them
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Role and separator tokens the API adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Our token counts are estimates, so keep some slack
+const SAFETY_MARGIN_TOKENS = 256;
+
+// Retrieved references may use at most this share of the prompt budget
+const REFERENCE_SHARE = 0.4;
+
+// Length limit for the rolling summary, which is always reserved in the budget
+export const SUMMARY_MAX_TOKENS = 400;
+
+export interface ContextPlan {
+  references: ChatReference[];
+  // Turns sent verbatim
+  history: ChatTurn[];
+  // Oldest turns that no longer fit; fold them into the summary
+  overflow: ChatTurn[];
+}
+
+export function getContextWindow(model: string): number {
+  return Number(process.env.CHAT_CONTEXT_WINDOW) || CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+}
+
+function turnTokens(turn: ChatTurn): number {
+  return estimateTokens(turn.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function referenceTokens(reference: ChatReference): number {
+  return estimateTokens(reference.source) + estimateTokens(reference.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Split the prompt budget between references and history. The window minus the response
+ * allowance, system prompt and summary is shared out: references first, up to their share
+ * and in ranked order, then the most recent turns that fit. The latest turn is always kept.
+ */
+export function planContext(options: {
+  model: string;
+  maxTokens: number;
+  systemPrompt: string;
+  references: ChatReference[];
+  history: ChatTurn[];
+}): ContextPlan {
+  const available = getContextWindow(options.model)
+    - options.maxTokens
+    - SAFETY_MARGIN_TOKENS
+    - estimateTokens(options.systemPrompt) - MESSAGE_OVERHEAD_TOKENS
+    - SUMMARY_MAX_TOKENS;
+
+  const referenceBudget = Math.floor(Math.max(0, available) * REFERENCE_SHARE);
+  const references: ChatReference[] = [];
+  let referenceTotal = 0;
+  for (const reference of options.references) {
+    const tokens = referenceTokens(reference);
+    if (referenceTotal + tokens > referenceBudget) break;
+    references.push(reference);
+    referenceTotal += tokens;
+  }
+
+  let historyBudget = available - referenceTotal;
+  let firstKept = options.history.length;
+  while (firstKept > 0) {
+    const tokens = turnTokens(options.history[firstKept - 1]);
+    if (tokens > historyBudget && firstKept < options.history.length) break;
+    historyBudget -= tokens;
+    firstKept--;
+  }
+
+  return {
+    references,
+    history: options.history.slice(firstKept),
+    overflow: options.history.slice(0, firstKept)
+  };
+}
+
+export interface ConversationSummary {
+  summary: string;
+  // Tokens the summarization call used, estimated when the provider reports none
+  usage: ChatUsage;
+}
+
+/**
+ * Fold turns that fell out of the window into the rolling summary
+ */
+export async function summarizeConversation(
+  previousSummary: string,
+  turns: ChatTurn[],
+  model: string,
+  signal?: AbortSignal
+): Promise<ConversationSummary> {
+  // A very long backlog is cut from the front so the request itself fits the window
+  let budget = getContextWindow(model) - SUMMARY_MAX_TOKENS - SAFETY_MARGIN_TOKENS * 2 - estimateTokens(previousSummary);
+  const lines: string[] = [];
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const line = `${turns[i].role === 'user' ? 'Student' : 'Assistant'}: ${turns[i].content}`;
+    budget -= estimateTokens(line);
+    if (budget < 0) break;
+    lines.unshift(line);
+  }
+  const transcript = lines.join('\n\n');
+
+  const messages = [
+    {
+      role: 'system' as const,
+      content: 'You maintain the running memory of a UPSC tutoring conversation. Merge the existing summary with the new transcript into one concise summary in plain prose or short bullets. Keep the topics covered, facts and figures the student was given, the student\'s goals, weak areas and any open questions. Leave out pleasantries. Stay under 300 words.'
+    },
+    {
+      role: 'user' as const,
+      content: `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New transcript:\n${transcript}`
+    }
+  ];
+  const { text, usage } = await completeChat({ model, maxTokens: SUMMARY_MAX_TOKENS, temperature: 0.2, messages }, signal);
+
+  if (!text.trim()) {
+    throw new Error('Summarization returned no text');
+  }
+  if (usage) return { summary: text.trim(), usage };
+
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completionTokens = estimateTokens(text);
+  return {
+    summary: text.trim(),
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, model, estimated: true }
+  };
+}
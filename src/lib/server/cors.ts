@@ -0,0 +1,40 @@
+/**
+ * CORS for the API routes. Only the app's own origin and those listed in ALLOWED_ORIGINS
+ * (comma-separated, e.g. `https://excellor.example,http://localhost:3000`) may call them.
+ */
+function getAllowedOrigins(): string[] {
+  return (process.env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Requests without an Origin header come from servers and tools rather than browsers
+ */
+export function isOriginAllowed(headers: Headers): boolean {
+  const origin = headers.get('origin');
+  if (!origin) return true;
+
+  try {
+    if (new URL(origin).host === headers.get('host')) return true;
+  } catch {
+    return false;
+  }
+  return getAllowedOrigins().includes(origin);
+}
+
+export function corsHeaders(headers: Headers): Record<string, string> {
+  const origin = headers.get('origin');
+  if (!origin || !isOriginAllowed(headers)) {
+    return { 'Vary': 'Origin' };
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Expose-Headers': 'X-Request-Id, X-Chat-Model, Retry-After',
+    'Vary': 'Origin',
+  };
+}
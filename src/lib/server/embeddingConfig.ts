@@ -0,0 +1,66 @@
+/**
+ * Server-side embedding configuration. Read from environment variables only, so the
+ * API key never reaches the browser bundle.
+ */
+export interface EmbeddingServerConfig {
+  provider: 'azure' | 'openai';
+  endpoint: string;
+  apiKey?: string;
+  model: string;
+  dimensions: number;
+  // Only sent upstream when the dimensions were configured explicitly (Matryoshka truncation)
+  requestDimensions?: number;
+  maxBatchSize: number;
+  // Total characters accepted in one request, across all inputs
+  maxRequestCharacters: number;
+}
+
+// Native output size of the models we support; anything else must set EMBEDDING_DIMENSIONS
+const NATIVE_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-large': 3072,
+  'text-embedding-3-small': 1536,
+  'text-embedding-ada-002': 1536
+};
+
+const DEFAULT_AZURE_RESOURCE = 'https://xandar-resource.cognitiveservices.azure.com';
+const DEFAULT_AZURE_API_VERSION = '2024-02-01';
+const DEFAULT_OPENAI_ENDPOINT = 'https://api.openai.com/v1/embeddings';
+
+export function getEmbeddingConfig(): EmbeddingServerConfig {
+  const provider = process.env.EMBEDDING_PROVIDER === 'openai' ? 'openai' : 'azure';
+  const model = process.env.EMBEDDING_MODEL || 'text-embedding-3-large';
+  const requestDimensions = process.env.EMBEDDING_DIMENSIONS ? Number(process.env.EMBEDDING_DIMENSIONS) : undefined;
+  const dimensions = requestDimensions || NATIVE_DIMENSIONS[model] || 3072;
+  const maxBatchSize = Number(process.env.EMBEDDING_MAX_BATCH_SIZE) || 64;
+  const maxRequestCharacters = Number(process.env.EMBEDDING_MAX_REQUEST_CHARACTERS) || 200000;
+
+  if (provider === 'openai') {
+    return {
+      provider,
+      endpoint: process.env.OPENAI_EMBEDDING_URL || DEFAULT_OPENAI_ENDPOINT,
+      apiKey: process.env.OPENAI_EMBEDDING_API_KEY,
+      model,
+      dimensions,
+      requestDimensions,
+      maxBatchSize,
+      maxRequestCharacters
+    };
+  }
+
+  // AZURE_OPENAI_ENDPOINT may hold a full embeddings URL; otherwise build one from the deployment
+  const deployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || model;
+  const resource = (process.env.AZURE_OPENAI_RESOURCE_URL || DEFAULT_AZURE_RESOURCE).replace(/\/$/, '');
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION;
+
+  return {
+    provider,
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT
+      || `${resource}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`,
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    model,
+    dimensions,
+    requestDimensions,
+    maxBatchSize,
+    maxRequestCharacters
+  };
+}
@@ -0,0 +1,25 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Rolling summaries go into the system prompt, so the server signs the ones it writes and only
+ * accepts those back. The key comes from CHAT_MEMORY_SECRET; without it a key is made per process,
+ * and summaries from before a restart are dropped and rebuilt.
+ */
+let processKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  const secret = process.env.CHAT_MEMORY_SECRET;
+  if (secret) return Buffer.from(secret);
+  processKey ??= randomBytes(32);
+  return processKey;
+}
+
+export function signMemory(summary: string, coveredCount: number): string {
+  return createHmac('sha256', getKey()).update(`${coveredCount}\n${summary}`).digest('base64url');
+}
+
+export function isMemorySignatureValid(summary: string, coveredCount: number, signature: string): boolean {
+  const expected = Buffer.from(signMemory(summary, coveredCount));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,123 @@
+import { ChatStreamEvent } from '@/lib/chatProtocol';
+import { readSseEvents } from '@/lib/sseParser';
+import { providerResponseError } from '@/lib/server/chatErrors';
+import { ChatMessage, ChatProvider, ChatProviderConfig } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Messages API stop reasons mapped onto the OpenAI names the protocol uses
+const STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length'
+};
+
+/**
+ * The Messages API takes the system prompt separately and needs turns to alternate,
+ * starting with the user
+ */
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: ChatMessage[] } {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+  const turns: ChatMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    // A leading assistant turn follows history that was summarized into the system prompt
+    if (turns.length === 0 && message.role === 'assistant') continue;
+
+    const previous = turns[turns.length - 1];
+    if (previous?.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ ...message });
+    }
+  }
+
+  return { system, messages: turns };
+}
+
+/**
+ * Adapter for Anthropic-style Messages APIs
+ */
+export function createAnthropicProvider(config: ChatProviderConfig): ChatProvider {
+  return {
+    kind: config.kind,
+    model: config.model,
+    async *streamChat(request, signal) {
+      const { system, messages } = toAnthropicMessages(request.messages);
+
+      const response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: {
+          'x-api-key': config.apiKey ?? '',
+          'anthropic-version': ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.model || request.model,
+          system: system || undefined,
+          messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw providerResponseError(config.kind, response);
+      }
+      yield* readAnthropicEvents(response);
+    }
+  };
+}
+
+async function* readAnthropicEvents(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    yield { type: 'error', code: 'upstream_error', message: 'Empty response from the model' };
+    return;
+  }
+
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  for await (const { data } of readSseEvents(response.body)) {
+    let event;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.warn('Skipping malformed upstream event:', data.slice(0, 200));
+      continue;
+    }
+
+    switch (event.type) {
+      case 'message_start':
+        promptTokens = event.message?.usage?.input_tokens ?? 0;
+        break;
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          yield { type: 'delta', content: event.delta.text };
+        }
+        break;
+      case 'message_delta':
+        completionTokens = event.usage?.output_tokens ?? completionTokens;
+        if (event.delta?.stop_reason) {
+          yield { type: 'finish', reason: STOP_REASONS[event.delta.stop_reason] ?? event.delta.stop_reason };
+        }
+        break;
+      case 'message_stop':
+        yield { type: 'usage', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        yield { type: 'done' };
+        return;
+      case 'error':
+        yield {
+          type: 'error',
+          code: event.error?.type === 'overloaded_error' ? 'upstream_unavailable' : 'upstream_error',
+          message: event.error?.message ?? 'The model returned an error'
+        };
+        return;
+    }
+  }
+
+  yield { type: 'error', code: 'stream_interrupted', message: 'The model stream ended unexpectedly' };
+}
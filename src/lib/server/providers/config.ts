@@ -0,0 +1,106 @@
+import { ChatProviderConfig, ChatProviderKind } from './types';
+
+/**
+ * Chat provider configuration, read from environment variables only.
+ * CHAT_PROVIDERS lists providers in the order they are tried, e.g. `azure,ollama`.
+ */
+const PROVIDER_KINDS: ChatProviderKind[] = ['openai', 'azure', 'anthropic', 'ollama', 'llamacpp'];
+
+const DEFAULT_OPENAI_ENDPOINT = 'https://2g1twslqmeeugna2.ai-plugin.io/chat/completions';
+const DEFAULT_AZURE_RESOURCE = 'https://xandar-resource.cognitiveservices.azure.com';
+const DEFAULT_AZURE_CHAT_API_VERSION = '2024-10-21';
+const DEFAULT_ANTHROPIC_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_LLAMACPP_ENDPOINT = 'http://localhost:8080/v1/chat/completions';
+
+function isProviderKind(value: string): value is ChatProviderKind {
+  return (PROVIDER_KINDS as string[]).includes(value);
+}
+
+function readFlag(name: string, defaultValue: boolean): boolean {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (!value) return defaultValue;
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Settings for one provider, or null when its required variables are missing
+ */
+function readProviderConfig(kind: ChatProviderKind): ChatProviderConfig | null {
+  switch (kind) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) return null;
+      return {
+        kind,
+        endpoint: process.env.OPENAI_API_URL || DEFAULT_OPENAI_ENDPOINT,
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_CHAT_MODEL,
+        streamUsage: readFlag('OPENAI_STREAM_USAGE', true)
+      };
+
+    case 'azure': {
+      const apiKey = process.env.AZURE_OPENAI_CHAT_API_KEY || process.env.AZURE_OPENAI_API_KEY;
+      const deployment = process.env.AZURE_OPENAI_CHAT_DEPLOYMENT;
+      // AZURE_OPENAI_CHAT_ENDPOINT may hold a full chat completions URL instead of a deployment
+      if (!apiKey || (!deployment && !process.env.AZURE_OPENAI_CHAT_ENDPOINT)) return null;
+      const resource = (process.env.AZURE_OPENAI_RESOURCE_URL || DEFAULT_AZURE_RESOURCE).replace(/\/$/, '');
+      const apiVersion = process.env.AZURE_OPENAI_CHAT_API_VERSION || DEFAULT_AZURE_CHAT_API_VERSION;
+      return {
+        kind,
+        endpoint: process.env.AZURE_OPENAI_CHAT_ENDPOINT
+          || `${resource}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+        apiKey,
+        streamUsage: true
+      };
+    }
+
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) return null;
+      return {
+        kind,
+        endpoint: process.env.ANTHROPIC_API_URL || DEFAULT_ANTHROPIC_ENDPOINT,
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        model: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest'
+      };
+
+    // Local servers need no key, so they are only used when listed in CHAT_PROVIDERS
+    case 'ollama':
+      return {
+        kind,
+        endpoint: `${(process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL).replace(/\/$/, '')}/api/chat`,
+        model: process.env.OLLAMA_MODEL || 'llama3.1'
+      };
+
+    case 'llamacpp':
+      return {
+        kind,
+        endpoint: process.env.LLAMACPP_URL || DEFAULT_LLAMACPP_ENDPOINT,
+        apiKey: process.env.LLAMACPP_API_KEY,
+        model: process.env.LLAMACPP_MODEL,
+        streamUsage: readFlag('LLAMACPP_STREAM_USAGE', false)
+      };
+  }
+}
+
+/**
+ * Configured providers in the order they should be tried
+ */
+export function getChatProviderConfigs(): ChatProviderConfig[] {
+  const listed = (process.env.CHAT_PROVIDERS || 'openai')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const configs: ChatProviderConfig[] = [];
+  for (const name of listed) {
+    if (!isProviderKind(name)) {
+      console.warn(`Ignoring unknown chat provider: ${name}`);
+      continue;
+    }
+    const config = readProviderConfig(name);
+    if (config && !configs.some(existing => existing.kind === name)) {
+      configs.push(config);
+    }
+  }
+  return configs;
+}
@@ -0,0 +1,93 @@
+import { ChatStreamEvent, ChatUsage } from '@/lib/chatProtocol';
+import { ChatRequestError } from '@/lib/server/chatErrors';
+import { createAnthropicProvider } from './anthropic';
+import { getChatProviderConfigs } from './config';
+import { createOllamaProvider } from './ollama';
+import { createOpenAIProvider } from './openai';
+import { ChatCompletionRequest, ChatProvider, ChatProviderConfig, ChatProviderKind } from './types';
+
+export type { ChatCompletionRequest, ChatMessage, ChatProvider, ChatProviderConfig, ChatProviderKind } from './types';
+export { getChatProviderConfigs } from './config';
+
+const ADAPTERS: Record<ChatProviderKind, (config: ChatProviderConfig) => ChatProvider> = {
+  openai: createOpenAIProvider,
+  azure: createOpenAIProvider,
+  llamacpp: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  ollama: createOllamaProvider
+};
+
+export function createChatProvider(config: ChatProviderConfig): ChatProvider {
+  return ADAPTERS[config.kind](config);
+}
+
+export function isChatApiConfigured(): boolean {
+  return getChatProviderConfigs().length > 0;
+}
+
+/**
+ * Model the first configured provider answers with, so clients can price answers they stop early
+ */
+export function getAnsweringModel(model: string): string {
+  return getChatProviderConfigs()[0]?.model || model;
+}
+
+/**
+ * Stream a completion from the first provider that works. A provider that fails before
+ * producing any text is skipped in favour of the next one; after that its errors are final,
+ * since a partial answer cannot be continued elsewhere.
+ */
+export async function* streamChatEvents(request: ChatCompletionRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  const providers = getChatProviderConfigs().map(createChatProvider);
+  if (providers.length === 0) {
+    throw new ChatRequestError('not_configured', 'No chat provider is configured on the server');
+  }
+
+  for (const [index, provider] of providers.entries()) {
+    const isLast = index === providers.length - 1;
+    let started = false;
+
+    try {
+      for await (const event of provider.streamChat(request, signal)) {
+        if (event.type === 'error' && !started && !isLast) {
+          throw new Error(event.message);
+        }
+        if (event.type === 'delta') started = true;
+        yield event.type === 'usage' ? { ...event, model: provider.model || request.model } : event;
+      }
+      return;
+    } catch (error) {
+      if (started || isLast || signal?.aborted) throw error;
+      console.error(`Chat provider ${provider.kind} failed, trying ${providers[index + 1].kind}:`, error);
+    }
+  }
+}
+
+export interface ChatCompletion {
+  text: string;
+  // Null when the provider reported no usage
+  usage: ChatUsage | null;
+}
+
+/**
+ * Run a completion to the end and return its text and usage, for internal calls such as summaries
+ */
+export async function completeChat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletion> {
+  let text = '';
+  let usage: ChatUsage | null = null;
+
+  for await (const event of streamChatEvents(request, signal)) {
+    if (event.type === 'delta') text += event.content;
+    if (event.type === 'usage') {
+      usage = {
+        promptTokens: event.promptTokens,
+        completionTokens: event.completionTokens,
+        totalTokens: event.totalTokens,
+        model: event.model
+      };
+    }
+    if (event.type === 'error') throw new Error(event.message);
+  }
+
+  return { text, usage };
+}
@@ -0,0 +1,95 @@
+import { ChatStreamEvent } from '@/lib/chatProtocol';
+import { providerResponseError } from '@/lib/server/chatErrors';
+import { ChatProvider, ChatProviderConfig } from './types';
+
+/**
+ * Adapter for a local Ollama server, which streams newline-delimited JSON rather than SSE
+ */
+export function createOllamaProvider(config: ChatProviderConfig): ChatProvider {
+  return {
+    kind: config.kind,
+    model: config.model,
+    async *streamChat(request, signal) {
+      const response = await fetch(config.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.model || request.model,
+          messages: request.messages,
+          stream: true,
+          options: {
+            temperature: request.temperature,
+            num_predict: request.maxTokens
+          }
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw providerResponseError(config.kind, response);
+      }
+      yield* readOllamaEvents(response);
+    }
+  };
+}
+
+async function* readJsonLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* readOllamaEvents(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    yield { type: 'error', code: 'upstream_error', message: 'Empty response from the model' };
+    return;
+  }
+
+  for await (const line of readJsonLines(response.body)) {
+    let chunk;
+    try {
+      chunk = JSON.parse(line);
+    } catch {
+      console.warn('Skipping malformed upstream line:', line.slice(0, 200));
+      continue;
+    }
+
+    if (chunk.error) {
+      yield { type: 'error', code: 'upstream_error', message: chunk.error };
+      return;
+    }
+    if (chunk.message?.content) {
+      yield { type: 'delta', content: chunk.message.content };
+    }
+    if (chunk.done) {
+      const promptTokens = chunk.prompt_eval_count ?? 0;
+      const completionTokens = chunk.eval_count ?? 0;
+      yield { type: 'finish', reason: chunk.done_reason ?? 'stop' };
+      yield { type: 'usage', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+      yield { type: 'done' };
+      return;
+    }
+  }
+
+  yield { type: 'error', code: 'stream_interrupted', message: 'The model stream ended unexpectedly' };
+}
@@ -0,0 +1,103 @@
+import { ChatStreamEvent } from '@/lib/chatProtocol';
+import { readSseEvents } from '@/lib/sseParser';
+import { providerResponseError } from '@/lib/server/chatErrors';
+import { ChatProvider, ChatProviderConfig } from './types';
+
+/**
+ * Adapter for the OpenAI chat completions API and servers that mimic it: Azure OpenAI,
+ * llama.cpp and the default Dify endpoint (which has no blocking mode, so we always stream)
+ */
+export function createOpenAIProvider(config: ChatProviderConfig): ChatProvider {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    // Azure authenticates with its own header
+    if (config.kind === 'azure') headers['api-key'] = config.apiKey;
+    else headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    kind: config.kind,
+    model: config.model,
+    async *streamChat(request, signal) {
+      const send = (includeUsage: boolean) => fetch(config.endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model || request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+          // Usage arrives in a final chunk when include_usage is set
+          ...(includeUsage ? { stream_options: { include_usage: true } } : {})
+        }),
+        signal
+      });
+
+      let response = await send(!!config.streamUsage);
+      // Servers that do not know stream_options reject the request; without it usage is estimated
+      if (response.status === 400 && config.streamUsage) {
+        await response.body?.cancel();
+        response = await send(false);
+      }
+
+      if (!response.ok) {
+        throw providerResponseError(config.kind, response);
+      }
+      yield* readOpenAIEvents(response);
+    }
+  };
+}
+
+/**
+ * Translate OpenAI-style stream chunks into protocol events
+ */
+async function* readOpenAIEvents(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    yield { type: 'error', code: 'upstream_error', message: 'Empty response from the model' };
+    return;
+  }
+
+  let finished = false;
+  for await (const { data } of readSseEvents(response.body)) {
+    if (data === '[DONE]') {
+      yield { type: 'done' };
+      return;
+    }
+
+    let chunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      console.warn('Skipping malformed upstream event:', data.slice(0, 200));
+      continue;
+    }
+
+    if (chunk.error) {
+      yield { type: 'error', code: 'upstream_error', message: chunk.error.message ?? 'The model returned an error' };
+      return;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (choice?.delta?.content) {
+      yield { type: 'delta', content: choice.delta.content };
+    }
+    if (choice?.finish_reason) {
+      finished = true;
+      yield { type: 'finish', reason: choice.finish_reason };
+    }
+    if (chunk.usage) {
+      yield {
+        type: 'usage',
+        promptTokens: chunk.usage.prompt_tokens ?? 0,
+        completionTokens: chunk.usage.completion_tokens ?? 0,
+        totalTokens: chunk.usage.total_tokens ?? 0
+      };
+    }
+  }
+
+  // Some providers close right after the finish reason instead of sending [DONE]
+  yield finished
+    ? { type: 'done' }
+    : { type: 'error', code: 'stream_interrupted', message: 'The model stream ended unexpectedly' };
+}
@@ -0,0 +1,401 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatStreamEvent } from '@/lib/chatProtocol';
+import { ChatCompletionRequest, completeChat, streamChatEvents } from './index';
+
+/**
+ * Runs the provider adapters against a local mock of each upstream API. Every test scripts
+ * the responses per path; the server records what the adapters sent.
+ */
+interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  // Written one piece at a time, so parsers see the stream split across reads
+  chunks: string[];
+}
+
+interface RecordedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+let server: Server;
+let baseUrl = '';
+let routes: Record<string, MockResponse | MockResponse[]> = {};
+let requests: RecordedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', async () => {
+      const path = req.url ?? '';
+      requests.push({ path, headers: req.headers, body: raw ? JSON.parse(raw) : {} });
+
+      // A list of responses is served in order, one per request
+      const route = routes[path];
+      const response = Array.isArray(route) ? route.shift() : route;
+      if (!response) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'text/event-stream', ...response.headers });
+      for (const chunk of response.chunks) {
+        res.write(chunk);
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes = {};
+  requests = [];
+  vi.stubEnv('OPENAI_API_KEY', 'openai-key');
+  vi.stubEnv('OPENAI_API_URL', `${baseUrl}/openai`);
+  vi.stubEnv('OPENAI_CHAT_MODEL', '');
+  vi.stubEnv('OPENAI_STREAM_USAGE', '');
+  vi.stubEnv('AZURE_OPENAI_CHAT_API_KEY', 'azure-key');
+  vi.stubEnv('AZURE_OPENAI_CHAT_ENDPOINT', `${baseUrl}/azure`);
+  vi.stubEnv('ANTHROPIC_API_KEY', 'anthropic-key');
+  vi.stubEnv('ANTHROPIC_API_URL', `${baseUrl}/anthropic`);
+  vi.stubEnv('ANTHROPIC_MODEL', 'claude-test');
+  vi.stubEnv('OLLAMA_URL', `${baseUrl}/ollama`);
+  vi.stubEnv('OLLAMA_MODEL', 'llama-test');
+  vi.stubEnv('LLAMACPP_URL', `${baseUrl}/llamacpp`);
+  vi.stubEnv('LLAMACPP_MODEL', '');
+  vi.stubEnv('LLAMACPP_STREAM_USAGE', '');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+const request: ChatCompletionRequest = {
+  model: 'gpt-test',
+  messages: [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'assistant', content: 'Welcome!' },
+    { role: 'user', content: 'What is Article 21?' }
+  ],
+  maxTokens: 100,
+  temperature: 0.2
+};
+
+function setProviders(providers: string): void {
+  vi.stubEnv('CHAT_PROVIDERS', providers);
+}
+
+async function collect(events: AsyncGenerator<ChatStreamEvent>): Promise<ChatStreamEvent[]> {
+  const collected: ChatStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+const sse = (data: unknown) => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`;
+
+const openAIStream = (...parts: string[]): MockResponse => ({
+  chunks: [
+    ...parts.map(content => sse({ choices: [{ delta: { content } }] })),
+    sse({ choices: [{ delta: {}, finish_reason: 'stop' }] }),
+    sse({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } }),
+    sse('[DONE]')
+  ]
+});
+
+const ollamaStream = (text: string): MockResponse => ({
+  chunks: [
+    `${JSON.stringify({ message: { content: text } })}\n`,
+    `${JSON.stringify({ done: true, done_reason: 'stop', prompt_eval_count: 8, eval_count: 2 })}\n`
+  ]
+});
+
+const text = (events: ChatStreamEvent[]) => events.map(event => (event.type === 'delta' ? event.content : '')).join('');
+
+describe('openai adapter', () => {
+  it('parses deltas, the finish reason and usage, and asks for usage in the stream', async () => {
+    setProviders('openai');
+    routes['/openai'] = openAIStream('Right to ', 'life');
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Right to ' },
+      { type: 'delta', content: 'life' },
+      { type: 'finish', reason: 'stop' },
+      { type: 'usage', promptTokens: 12, completionTokens: 3, totalTokens: 15, model: 'gpt-test' },
+      { type: 'done' }
+    ]);
+    expect(requests[0].headers.authorization).toBe('Bearer openai-key');
+    expect(requests[0].body).toMatchObject({ model: 'gpt-test', stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('retries once without stream_options when the server rejects them', async () => {
+    setProviders('openai');
+    routes['/openai'] = [{ status: 400, chunks: ['{"error":"unknown field stream_options"}'] }, openAIStream('Hello')];
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(text(events)).toBe('Hello');
+    expect(requests).toHaveLength(2);
+    expect(requests[0].body.stream_options).toBeDefined();
+    expect(requests[1].body.stream_options).toBeUndefined();
+  });
+
+  it('can be told not to ask for stream usage', async () => {
+    setProviders('openai');
+    vi.stubEnv('OPENAI_STREAM_USAGE', 'false');
+    routes['/openai'] = openAIStream('Hello');
+
+    await collect(streamChatEvents(request));
+
+    expect(requests[0].body.stream_options).toBeUndefined();
+  });
+
+  it('reports a stream that ends without a finish reason as interrupted', async () => {
+    setProviders('openai');
+    routes['/openai'] = { chunks: [sse({ choices: [{ delta: { content: 'Half' } }] })] };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events.at(-1)).toMatchObject({ type: 'error', code: 'stream_interrupted' });
+  });
+
+  it('passes on errors sent inside the stream', async () => {
+    setProviders('openai');
+    routes['/openai'] = { chunks: [sse({ error: { message: 'content filtered' } })] };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events).toEqual([{ type: 'error', code: 'upstream_error', message: 'content filtered' }]);
+  });
+});
+
+describe('azure adapter', () => {
+  it('authenticates with the api-key header and asks for stream usage', async () => {
+    setProviders('azure');
+    routes['/azure'] = openAIStream('Namaste');
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(text(events)).toBe('Namaste');
+    expect(requests[0].headers['api-key']).toBe('azure-key');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+  });
+});
+
+describe('llamacpp adapter', () => {
+  it('does not send stream_options and accepts a stream closed right after the finish reason', async () => {
+    setProviders('llamacpp');
+    routes['/llamacpp'] = {
+      chunks: [
+        sse({ choices: [{ delta: { content: 'Local' } }] }),
+        sse({ choices: [{ delta: {}, finish_reason: 'length' }] })
+      ]
+    };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Local' },
+      { type: 'finish', reason: 'length' },
+      { type: 'done' }
+    ]);
+    expect(requests[0].body.stream_options).toBeUndefined();
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+});
+
+describe('anthropic adapter', () => {
+  it('parses Messages API events and maps stop reasons and usage', async () => {
+    setProviders('anthropic');
+    routes['/anthropic'] = {
+      chunks: [
+        sse({ type: 'message_start', message: { usage: { input_tokens: 20 } } }),
+        sse({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+        sse({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Protection of ' } }),
+        sse({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'life' } }),
+        sse({ type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 4 } }),
+        sse({ type: 'message_stop' })
+      ]
+    };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Protection of ' },
+      { type: 'delta', content: 'life' },
+      { type: 'finish', reason: 'length' },
+      { type: 'usage', promptTokens: 20, completionTokens: 4, totalTokens: 24, model: 'claude-test' },
+      { type: 'done' }
+    ]);
+  });
+
+  it('sends the system prompt separately and starts the turns with the user', async () => {
+    setProviders('anthropic');
+    routes['/anthropic'] = { chunks: [sse({ type: 'message_stop' })] };
+
+    await collect(streamChatEvents(request));
+
+    expect(requests[0].headers['x-api-key']).toBe('anthropic-key');
+    expect(requests[0].body).toMatchObject({
+      model: 'claude-test',
+      system: 'Be brief.',
+      messages: [{ role: 'user', content: 'What is Article 21?' }]
+    });
+  });
+
+  it('maps an overloaded error event to upstream_unavailable', async () => {
+    setProviders('anthropic');
+    routes['/anthropic'] = { chunks: [sse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })] };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events).toEqual([{ type: 'error', code: 'upstream_unavailable', message: 'Overloaded' }]);
+  });
+});
+
+describe('ollama adapter', () => {
+  it('parses newline-delimited JSON, including lines split across reads', async () => {
+    setProviders('ollama');
+    const done = JSON.stringify({ done: true, done_reason: 'stop', prompt_eval_count: 8, eval_count: 2 });
+    routes['/ollama/api/chat'] = {
+      chunks: [`${JSON.stringify({ message: { content: 'Hi' } })}\n${done.slice(0, 10)}`, `${done.slice(10)}\n`]
+    };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events).toEqual([
+      { type: 'delta', content: 'Hi' },
+      { type: 'finish', reason: 'stop' },
+      { type: 'usage', promptTokens: 8, completionTokens: 2, totalTokens: 10, model: 'llama-test' },
+      { type: 'done' }
+    ]);
+    expect(requests[0].body).toMatchObject({ model: 'llama-test', stream: true, options: { num_predict: 100 } });
+  });
+
+  it('reports a stream without a done line as interrupted', async () => {
+    setProviders('ollama');
+    routes['/ollama/api/chat'] = { chunks: [`${JSON.stringify({ message: { content: 'Hi' } })}\n`] };
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(events.at(-1)).toMatchObject({ type: 'error', code: 'stream_interrupted' });
+  });
+});
+
+describe('error mapping', () => {
+  it.each([
+    [401, {}, 'upstream_auth', undefined],
+    [403, {}, 'upstream_auth', undefined],
+    [429, { 'Retry-After': '7' }, 'rate_limited', 7],
+    [503, {}, 'upstream_unavailable', undefined],
+    [504, {}, 'timeout', undefined],
+    [422, {}, 'upstream_error', undefined]
+  ])('maps HTTP %i to %s', async (status, headers, code, retryAfter) => {
+    setProviders('openai');
+    routes['/openai'] = { status, headers, chunks: ['{}'] };
+
+    await expect(collect(streamChatEvents(request))).rejects.toMatchObject({ code, retryAfter });
+  });
+
+  it('maps each adapter\'s HTTP failures the same way', async () => {
+    for (const [provider, path] of [['anthropic', '/anthropic'], ['ollama', '/ollama/api/chat'], ['azure', '/azure']]) {
+      setProviders(provider);
+      routes[path] = { status: 401, chunks: ['{}'] };
+      await expect(collect(streamChatEvents(request))).rejects.toMatchObject({ code: 'upstream_auth' });
+    }
+  });
+
+  it('fails with not_configured when no provider has credentials', async () => {
+    setProviders('anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+    await expect(collect(streamChatEvents(request))).rejects.toMatchObject({ code: 'not_configured' });
+  });
+});
+
+describe('fallback between providers', () => {
+  it('tries providers in the configured order until one answers', async () => {
+    setProviders('openai,anthropic,ollama');
+    routes['/openai'] = { status: 503, chunks: ['{}'] };
+    routes['/anthropic'] = { status: 429, chunks: ['{}'] };
+    routes['/ollama/api/chat'] = ollamaStream('From Ollama');
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(text(events)).toBe('From Ollama');
+    expect(requests.map(recorded => recorded.path)).toEqual(['/openai', '/anthropic', '/ollama/api/chat']);
+    expect(events.find(event => event.type === 'usage')).toMatchObject({ model: 'llama-test' });
+  });
+
+  it('falls back when a provider streams an error before any text', async () => {
+    setProviders('anthropic,ollama');
+    routes['/anthropic'] = { chunks: [sse({ type: 'error', error: { type: 'api_error', message: 'Broken' } })] };
+    routes['/ollama/api/chat'] = ollamaStream('Recovered');
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(text(events)).toBe('Recovered');
+    expect(events.some(event => event.type === 'error')).toBe(false);
+  });
+
+  it('does not fall back once the answer has started', async () => {
+    setProviders('openai,ollama');
+    routes['/openai'] = { chunks: [sse({ choices: [{ delta: { content: 'Partial' } }] })] };
+    routes['/ollama/api/chat'] = ollamaStream('Should not be used');
+
+    const events = await collect(streamChatEvents(request));
+
+    expect(text(events)).toBe('Partial');
+    expect(events.at(-1)).toMatchObject({ type: 'error', code: 'stream_interrupted' });
+    expect(requests.map(recorded => recorded.path)).toEqual(['/openai']);
+  });
+
+  it('reports the last provider\'s failure when every provider fails', async () => {
+    setProviders('openai,ollama');
+    routes['/openai'] = { status: 503, chunks: ['{}'] };
+    routes['/ollama/api/chat'] = { status: 401, chunks: ['{}'] };
+
+    await expect(collect(streamChatEvents(request))).rejects.toMatchObject({ code: 'upstream_auth' });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not try the next provider after the request was cancelled', async () => {
+    setProviders('openai,ollama');
+    routes['/ollama/api/chat'] = ollamaStream('Should not be used');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(collect(streamChatEvents(request, controller.signal))).rejects.toThrow();
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('completeChat', () => {
+  it('returns the whole text with the usage the provider reported', async () => {
+    setProviders('openai');
+    routes['/openai'] = openAIStream('Summary ', 'text');
+
+    await expect(completeChat(request)).resolves.toEqual({
+      text: 'Summary text',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15, model: 'gpt-test' }
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { ChatStreamEvent } from '@/lib/chatProtocol';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-neutral completion request; adapters translate it to their own API
+ */
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+export type ChatProviderKind = 'openai' | 'azure' | 'anthropic' | 'ollama' | 'llamacpp';
+
+export interface ChatProviderConfig {
+  kind: ChatProviderKind;
+  endpoint: string;
+  apiKey?: string;
+  /** Replaces the profile's model, for providers that name their models differently */
+  model?: string;
+  /** Ask OpenAI-style servers for token usage in the stream (`stream_options`), which some reject */
+  streamUsage?: boolean;
+}
+
+/**
+ * A chat backend. Adapters throw when the request cannot be started and otherwise yield
+ * protocol events, ending with `done` or `error` (see chatProtocol.ts).
+ */
+export interface ChatProvider {
+  kind: ChatProviderKind;
+  // The configured model override, if any
+  model?: string;
+  streamChat(request: ChatCompletionRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent>;
+}
@@ -0,0 +1,246 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import { ChatRequestError } from './chatErrors';
+
+/**
+ * Per-client rate limits and daily token quotas for /api/chat and /api/embeddings, each
+ * counted separately.
+ *
+ * Clients are identified by IP address. Request timestamps for the rate limit live in
+ * memory only; daily usage is also written to CHAT_USAGE_FILE when it is set, so quotas
+ * survive restarts. Both are per server process.
+ */
+export interface ChatLimits {
+  requestsPerMinute: number;
+  // 0 disables the quota
+  dailyTokenQuota: number;
+}
+
+export type UsageKind = 'chat' | 'embeddings';
+
+export interface ClientUsage {
+  clientId: string;
+  requests: number;
+  tokens: number;
+  // Absent in usage files written before embeddings were limited
+  embeddingRequests?: number;
+  embeddingTokens?: number;
+  lastSeen: number;
+}
+
+export interface UsageReport {
+  day: string;
+  limits: ChatLimits;
+  embeddingLimits: ChatLimits;
+  totals: { requests: number; tokens: number; embeddingRequests: number; embeddingTokens: number; clients: number };
+  clients: ClientUsage[];
+}
+
+interface UsageFile {
+  day: string;
+  clients: Record<string, ClientUsage>;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+const SAVE_DELAY_MS = 1000;
+
+// Wording for the limit errors of each kind
+const KIND_LABELS: Record<UsageKind, { requests: string; quota: string }> = {
+  chat: { requests: 'messages', quota: 'daily limit' },
+  embeddings: { requests: 'embedding requests', quota: 'daily embedding limit' }
+};
+
+export function getChatLimits(): ChatLimits {
+  const quota = process.env.CHAT_DAILY_TOKEN_QUOTA;
+  return {
+    requestsPerMinute: Number(process.env.CHAT_RATE_LIMIT_PER_MINUTE) || 20,
+    dailyTokenQuota: quota ? Math.max(0, Number(quota) || 0) : 200000
+  };
+}
+
+/**
+ * Uploads send one request per batch of chunks, so the defaults allow a few large documents a minute
+ */
+export function getEmbeddingLimits(): ChatLimits {
+  const quota = process.env.EMBEDDING_DAILY_TOKEN_QUOTA;
+  return {
+    requestsPerMinute: Number(process.env.EMBEDDING_RATE_LIMIT_PER_MINUTE) || 60,
+    dailyTokenQuota: quota ? Math.max(0, Number(quota) || 0) : 2000000
+  };
+}
+
+// Bucket for every request that carries no trusted address
+const SHARED_CLIENT_ID = 'shared';
+
+let sharedBucketWarned = false;
+
+/**
+ * Identify the caller by IP. Each of the TRUSTED_PROXY_HOPS reverse proxies in front of the app
+ * appends the address it was called from to X-Forwarded-For, so the client is that many entries
+ * from the right; entries further left were sent by the client and can be anything. Without
+ * such an address all requests share one bucket, with a warning unless SHARED_CLIENT_BUCKET=true
+ * says that is intended.
+ */
+export function getClientId(headers: Headers): string {
+  const hops = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+  const forwarded = (headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim());
+  const address = hops > 0 && forwarded.length >= hops ? forwarded[forwarded.length - hops] : '';
+
+  if (address) return address;
+  if (process.env.SHARED_CLIENT_BUCKET !== 'true' && !sharedBucketWarned) {
+    sharedBucketWarned = true;
+    console.warn('No trusted client address (TRUSTED_PROXY_HOPS); all clients share one rate limit and quota. Set SHARED_CLIENT_BUCKET=true to silence this.');
+  }
+  return SHARED_CLIENT_ID;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function secondsUntilTomorrow(): number {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+}
+
+const recentRequests: Record<UsageKind, Map<string, number[]>> = { chat: new Map(), embeddings: new Map() };
+let usagePromise: Promise<UsageFile> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function loadUsage(): Promise<UsageFile> {
+  const file = process.env.CHAT_USAGE_FILE;
+  if (file) {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as UsageFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read chat usage file, starting empty:', error);
+      }
+    }
+  }
+  return { day: today(), clients: {} };
+}
+
+/**
+ * Today's usage; counters reset when the UTC day changes
+ */
+async function getUsage(): Promise<UsageFile> {
+  if (!usagePromise) {
+    usagePromise = loadUsage();
+  }
+  const usage = await usagePromise;
+  if (usage.day !== today()) {
+    usage.day = today();
+    usage.clients = {};
+  }
+  return usage;
+}
+
+function scheduleSave(usage: UsageFile): void {
+  const file = process.env.CHAT_USAGE_FILE;
+  if (!file || saveTimer) return;
+
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    try {
+      // Write then rename, so a crash never leaves a truncated file
+      await writeFile(`${file}.tmp`, JSON.stringify(usage));
+      await rename(`${file}.tmp`, file);
+    } catch (error) {
+      console.error('Failed to save chat usage:', error);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+function tokensUsed(client: ClientUsage | undefined, kind: UsageKind): number {
+  if (!client) return 0;
+  return kind === 'chat' ? client.tokens : client.embeddingTokens ?? 0;
+}
+
+/**
+ * Admit a request or throw a ChatRequestError saying when to come back
+ */
+async function checkAllowance(kind: UsageKind, clientId: string, limits: ChatLimits): Promise<void> {
+  const requests = recentRequests[kind];
+  const labels = KIND_LABELS[kind];
+  const now = Date.now();
+
+  const recent = (requests.get(clientId) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+  if (recent.length >= limits.requestsPerMinute) {
+    requests.set(clientId, recent);
+    throw new ChatRequestError(
+      'rate_limited',
+      `You can send ${limits.requestsPerMinute} ${labels.requests} per minute.`,
+      Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000)
+    );
+  }
+
+  const usage = await getUsage();
+  if (limits.dailyTokenQuota > 0 && tokensUsed(usage.clients[clientId], kind) >= limits.dailyTokenQuota) {
+    throw new ChatRequestError(
+      'quota_exceeded',
+      `The ${labels.quota} of ${limits.dailyTokenQuota.toLocaleString()} tokens has been used up. It resets at midnight UTC.`,
+      secondsUntilTomorrow()
+    );
+  }
+
+  recent.push(now);
+  requests.set(clientId, recent);
+  // Forget clients whose window has passed
+  for (const [id, times] of requests) {
+    if (now - times[times.length - 1] >= RATE_WINDOW_MS) requests.delete(id);
+  }
+}
+
+async function recordUsage(kind: UsageKind, clientId: string, tokens: number): Promise<void> {
+  const usage = await getUsage();
+  const client = usage.clients[clientId] ?? { clientId, requests: 0, tokens: 0, lastSeen: 0 };
+  if (kind === 'chat') {
+    client.requests++;
+    client.tokens += tokens;
+  } else {
+    client.embeddingRequests = (client.embeddingRequests ?? 0) + 1;
+    client.embeddingTokens = (client.embeddingTokens ?? 0) + tokens;
+  }
+  client.lastSeen = Date.now();
+  usage.clients[clientId] = client;
+  scheduleSave(usage);
+}
+
+export function checkChatAllowance(clientId: string): Promise<void> {
+  return checkAllowance('chat', clientId, getChatLimits());
+}
+
+/**
+ * Count a finished request against the client's daily quota
+ */
+export function recordChatUsage(clientId: string, tokens: number): Promise<void> {
+  return recordUsage('chat', clientId, tokens);
+}
+
+export function checkEmbeddingAllowance(clientId: string): Promise<void> {
+  return checkAllowance('embeddings', clientId, getEmbeddingLimits());
+}
+
+export function recordEmbeddingUsage(clientId: string, tokens: number): Promise<void> {
+  return recordUsage('embeddings', clientId, tokens);
+}
+
+export async function getUsageReport(): Promise<UsageReport> {
+  const usage = await getUsage();
+  const clients = Object.values(usage.clients).sort((a, b) => b.tokens - a.tokens);
+
+  return {
+    day: usage.day,
+    limits: getChatLimits(),
+    embeddingLimits: getEmbeddingLimits(),
+    totals: {
+      requests: clients.reduce((sum, client) => sum + client.requests, 0),
+      tokens: clients.reduce((sum, client) => sum + client.tokens, 0),
+      embeddingRequests: clients.reduce((sum, client) => sum + (client.embeddingRequests ?? 0), 0),
+      embeddingTokens: clients.reduce((sum, client) => sum + (client.embeddingTokens ?? 0), 0),
+      clients: clients.length
+    },
+    clients
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { readSseEvents, SseParser } from './sseParser';
+
+const encoder = new TextEncoder();
+
+// Feed the text one piece at a time, collecting every event produced
+function parseInPieces(pieces: Array<string | Uint8Array>) {
+  const parser = new SseParser();
+  return [...pieces.flatMap(piece => parser.push(piece)), ...parser.end()];
+}
+
+describe('SseParser', () => {
+  it('parses named and unnamed events', () => {
+    expect(parseInPieces(['event: usage\ndata: {"tokens":3}\n\ndata: hello\n\n'])).toEqual([
+      { event: 'usage', data: '{"tokens":3}', id: undefined },
+      { event: 'message', data: 'hello', id: undefined }
+    ]);
+  });
+
+  it('buffers lines split anywhere across chunks', () => {
+    const text = 'data: {"type":"delta","content":"Article 21"}\n\ndata: {"type":"done"}\n\n';
+    const expected = parseInPieces([text]);
+
+    for (let cut = 1; cut < text.length; cut++) {
+      expect(parseInPieces([text.slice(0, cut), text.slice(cut)])).toEqual(expected);
+    }
+    expect(parseInPieces(text.split(''))).toEqual(expected);
+  });
+
+  it('accepts CRLF and lone CR line endings, including a CRLF split between chunks', () => {
+    const expected = [{ event: 'message', data: 'first', id: undefined }, { event: 'message', data: 'second', id: undefined }];
+
+    expect(parseInPieces(['data: first\r\n\r\ndata: second\r\r'])).toEqual(expected);
+    expect(parseInPieces(['data: first\r', '\n\r', '\ndata: second\r\n\r\n'])).toEqual(expected);
+  });
+
+  it('joins multi-line data with newlines and strips only one leading space', () => {
+    expect(parseInPieces(['data: line one\ndata:line two\ndata:  indented\n\n'])).toEqual([
+      { event: 'message', data: 'line one\nline two\n indented', id: undefined }
+    ]);
+  });
+
+  it('ignores comments, unknown fields and events without data', () => {
+    expect(parseInPieces([': keep-alive\nretry: 1000\n\nevent: ping\n\nid: 7\ndata: real\n\n'])).toEqual([
+      { event: 'message', data: 'real', id: '7' }
+    ]);
+  });
+
+  it('keeps multibyte characters split between byte chunks intact', () => {
+    const bytes = encoder.encode('data: अनुच्छेद २१\n\n');
+
+    expect(parseInPieces([bytes.slice(0, 8), bytes.slice(8, 9), bytes.slice(9)])).toEqual([
+      { event: 'message', data: 'अनुच्छेद २१', id: undefined }
+    ]);
+  });
+
+  it('returns a final event that has no trailing blank line when the stream ends', () => {
+    expect(parseInPieces(['data: partial'])).toEqual([{ event: 'message', data: 'partial', id: undefined }]);
+  });
+});
+
+describe('readSseEvents', () => {
+  it('yields events from a byte stream', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: one\n'));
+        controller.enqueue(encoder.encode('\ndata: two'));
+        controller.close();
+      }
+    });
+
+    const data: string[] = [];
+    for await (const event of readSseEvents(body)) data.push(event.data);
+    expect(data).toEqual(['one', 'two']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * One server-sent event; data lines are joined with newlines as the spec requires
+ */
+export interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental server-sent events parser. Bytes are decoded with a streaming TextDecoder,
+ * so multibyte characters split across chunks survive, and partial lines are buffered
+ * until their line break arrives.
+ */
+export class SseParser {
+  private decoder = new TextDecoder();
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventName = '';
+  private lastEventId: string | undefined;
+
+  /**
+   * Feed a chunk and return the events it completed
+   */
+  push(chunk: Uint8Array | string): SseEvent[] {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    return this.drain(false);
+  }
+
+  /**
+   * Flush the decoder at the end of the stream; a final event without a trailing blank line is still returned
+   */
+  end(): SseEvent[] {
+    this.buffer += this.decoder.decode();
+    return this.drain(true);
+  }
+
+  private drain(final: boolean): SseEvent[] {
+    const events: SseEvent[] = [];
+    // A trailing \r may be the first half of \r\n; keep it until the next chunk shows
+    const carry = !final && this.buffer.endsWith('\r') ? '\r' : '';
+    const lines = this.buffer.slice(0, this.buffer.length - carry.length).split(/\r\n|\r|\n/);
+    // The last piece is an incomplete line unless the stream has ended
+    this.buffer = (final ? '' : lines.pop() ?? '') + carry;
+
+    for (const line of lines) {
+      if (line === '') {
+        const event = this.dispatch();
+        if (event) events.push(event);
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+
+      if (field === 'data') this.dataLines.push(value);
+      else if (field === 'event') this.eventName = value;
+      else if (field === 'id') this.lastEventId = value;
+    }
+
+    if (final) {
+      const event = this.dispatch();
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private dispatch(): SseEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventName = '';
+      return null;
+    }
+    const event: SseEvent = { event: this.eventName || 'message', data: this.dataLines.join('\n'), id: this.lastEventId };
+    this.dataLines = [];
+    this.eventName = '';
+    return event;
+  }
+}
+
+/**
+ * Iterate the events of a server-sent events body
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const parser = new SseParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(value);
+    }
+    yield* parser.end();
+  } finally {
+    reader.releaseLock();
+  }
+}
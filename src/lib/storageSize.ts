@@ -0,0 +1,49 @@
+/**
+ * Approximate the bytes a value occupies once IndexedDB has serialized it: strings as
+ * UTF-16, numbers as doubles, binary data at its byte length, plus keys for objects.
+ */
+export function estimateValueSize(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+
+  switch (typeof value) {
+    case 'string':
+      return value.length * 2;
+    case 'number':
+      return 8;
+    case 'boolean':
+      return 4;
+    case 'object':
+      break;
+    default:
+      return 0;
+  }
+
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return value.size;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (value instanceof Date) return 8;
+
+  if (Array.isArray(value)) {
+    return value.reduce((sum: number, item) => sum + estimateValueSize(item), 0);
+  }
+
+  let size = 0;
+  for (const [key, item] of Object.entries(value)) {
+    size += key.length * 2 + estimateValueSize(item);
+  }
+  return size;
+}
+
+/**
+ * Human readable byte count, e.g. "12.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 || value >= 100 ? 0 : 1)} ${units[unit]}`;
+}
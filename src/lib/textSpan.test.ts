@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { findTextSpan, stripStructureMarkup } from './textSpan';
+
+describe('stripStructureMarkup', () => {
+  it('drops heading marks, list markers, table pipes and delimiter rows', () => {
+    const chunk = '## Polity\n\n- Item one\n  2. Sub item\n| A | B \\| C |\n| --- | :---: |\n| 1 | 2 |';
+
+    expect(stripStructureMarkup(chunk).split('\n')).toEqual(['Polity', '', 'Item one', 'Sub item', ' A   B | C ', ' 1   2 ']);
+  });
+});
+
+describe('findTextSpan', () => {
+  it('matches a structured chunk against rendered text once its markup is stripped', () => {
+    const rendered = 'Budget\nYear Outlay\n2024 48 lakh crore';
+    const chunk = '# Budget\n\n| Year | Outlay |\n| --- | --- |\n| 2024 | 48 lakh crore |';
+
+    expect(findTextSpan(rendered, chunk)).toBeNull();
+    expect(findTextSpan(rendered, stripStructureMarkup(chunk))).toEqual({ start: 0, end: rendered.length });
+  });
+});
+
+describe('findTextSpan ignoring markup', () => {
+  it('matches a chunk against a markdown file that writes its headings, lists and tables differently', () => {
+    const file = 'Intro\n\n## Polity\n\n* Item one\n\n|A|B|\n|---|---|\n|1|2|\n\nOutro';
+    const chunk = '# Polity\n\n- Item one\n\n| A | B |\n| --- | --- |\n| 1 | 2 |';
+
+    expect(findTextSpan(file, chunk)).toBeNull();
+    const span = findTextSpan(file, chunk, { ignoreMarkup: true });
+    expect(file.slice(span!.start, span!.end)).toBe('Polity\n\n* Item one\n\n|A|B|\n|---|---|\n|1|2');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Locating a chunk's text inside the text of the rendered original. Extraction and rendering
+ * split lines, paragraphs and words differently, so matching ignores whitespace and case.
+ */
+export interface TextSpan {
+  // Offsets into the original text, end exclusive
+  start: number;
+  end: number;
+}
+
+// Characters compared at each end of a chunk when it is not found whole
+const PROBE_LENGTH = 30;
+
+interface SearchableText {
+  text: string;
+  // Position in the original text of each character of `text`
+  offsets: number[];
+}
+
+const TABLE_DELIMITER_ROW = /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+// Heading hashes or a list marker opening a line
+function markupPrefixLength(line: string): number {
+  return (line.match(/^#{1,6}\s+/) ?? line.match(/^\s*(?:[-*+]|\d+[.)])\s+/))?.[0].length ?? 0;
+}
+
+/**
+ * With `ignoreMarkup`, the markdown structure stripStructureMarkup removes is skipped too,
+ * so a chunk matches a markdown file however either side writes its headings, lists and tables
+ */
+function toSearchable(text: string, ignoreMarkup: boolean): SearchableText {
+  let searchable = '';
+  const offsets: number[] = [];
+  let lineStart = 0;
+
+  for (const line of text.split('\n')) {
+    if (!ignoreMarkup || !TABLE_DELIMITER_ROW.test(line)) {
+      const tableRow = ignoreMarkup && TABLE_ROW.test(line);
+      for (let index = ignoreMarkup ? markupPrefixLength(line) : 0; index < line.length; index++) {
+        const char = line[index];
+        if (/\s/.test(char)) continue;
+        if (tableRow && char === '|' && line[index - 1] !== '\\') continue;
+        if (tableRow && char === '\\' && line[index + 1] === '|') continue;
+        searchable += char.toLowerCase();
+        offsets.push(lineStart + index);
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return { text: searchable, offsets };
+}
+
+/**
+ * Find where `chunk` appears in `text`. A chunk that runs past the end of the text (it continues
+ * on the next page) is matched by its opening, and one that started earlier by its closing.
+ */
+export function findTextSpan(text: string, chunk: string, options: { ignoreMarkup?: boolean } = {}): TextSpan | null {
+  const ignoreMarkup = options.ignoreMarkup ?? false;
+  const haystack = toSearchable(text, ignoreMarkup);
+  const needle = toSearchable(chunk, ignoreMarkup).text;
+  if (!needle || !haystack.text) return null;
+
+  let start = haystack.text.indexOf(needle);
+  let end = start + needle.length;
+
+  if (start === -1) {
+    const head = needle.slice(0, PROBE_LENGTH);
+    const tail = needle.slice(-PROBE_LENGTH);
+    const headAt = haystack.text.indexOf(head);
+    const tailAt = haystack.text.indexOf(tail);
+
+    if (headAt !== -1) {
+      start = headAt;
+      end = Math.min(haystack.text.length, headAt + needle.length);
+    } else if (tailAt !== -1) {
+      end = tailAt + tail.length;
+      start = Math.max(0, end - needle.length);
+    } else {
+      return null;
+    }
+  }
+
+  return { start: haystack.offsets[start], end: haystack.offsets[end - 1] + 1 };
+}
+
+/**
+ * Remove the markdown-style markup extraction adds (heading hashes, list markers, table pipes
+ * and delimiter rows), for matching a chunk against a rendered document that shows the
+ * structure itself
+ */
+export function stripStructureMarkup(chunk: string): string {
+  return chunk
+    .split('\n')
+    .filter(line => !TABLE_DELIMITER_ROW.test(line))
+    .map(line => line
+      .slice(markupPrefixLength(line))
+      .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.replace(/(?<!\\)\|/g, ' ').replace(/\\\|/g, '|')))
+    .join('\n');
+}
+
+/**
+ * Whether the range [start, end) overlaps the span
+ */
+export function overlapsSpan(span: TextSpan, start: number, end: number): boolean {
+  return start < span.end && end > span.start;
+}
@@ -0,0 +1,22 @@
+/**
+ * Estimate the number of model tokens in a piece of text.
+ *
+ * BPE tokenizers average roughly four characters per token for English prose,
+ * while Devanagari and other non-Latin scripts split much more finely, so those
+ * characters are weighted separately.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  let asciiChars = 0;
+  let otherChars = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) {
+      asciiChars++;
+    } else {
+      otherChars++;
+    }
+  }
+
+  return Math.ceil(asciiChars / 4 + otherChars / 1.5);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeUsage, UsageEntry } from './usageLedger';
+
+const entry = (fields: Partial<UsageEntry>): UsageEntry => ({
+  id: Math.random().toString(36),
+  kind: 'chat',
+  timestamp: new Date(2026, 9, 19),
+  model: 'gpt-test',
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  estimated: false,
+  ...fields
+});
+
+describe('summarizeUsage', () => {
+  it('shares a chat answer\'s spend between the documents it drew on', () => {
+    const summary = summarizeUsage([
+      entry({ kind: 'embedding', totalTokens: 100, cost: 0.01, documentId: 'polity', documentName: 'Polity.pdf' }),
+      entry({
+        totalTokens: 300,
+        cost: 0.3,
+        referencedDocuments: [
+          { documentId: 'polity', documentName: 'Polity.pdf' },
+          { documentId: 'history', documentName: 'History.epub' }
+        ]
+      }),
+      entry({ totalTokens: 50, cost: 0.05 })
+    ]);
+
+    expect(summary.chat).toEqual({ tokens: 350, cost: expect.closeTo(0.35) });
+    expect(summary.byDocument).toEqual([
+      { documentId: 'polity', documentName: 'Polity.pdf', tokens: 250, cost: expect.closeTo(0.16), chat: { tokens: 150, cost: expect.closeTo(0.15) } },
+      { documentId: 'history', documentName: 'History.epub', tokens: 150, cost: expect.closeTo(0.15), chat: { tokens: 150, cost: expect.closeTo(0.15) } }
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { v4 as uuidv4 } from 'uuid';
+import { estimateCost } from './usagePricing';
+
+/**
+ * Ledger of tokens spent on chat completions and embeddings, kept in the browser next to
+ * the documents and conversations it belongs to. Every entry is priced when it is recorded.
+ */
+export type UsageKind = 'chat' | 'embedding';
+
+export interface UsageEntry {
+  id: string;
+  kind: UsageKind;
+  timestamp: Date;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  // True when the provider reported nothing and the tokens were counted locally
+  estimated: boolean;
+  conversationId?: string;
+  messageId?: string;
+  // Embeddings made while indexing a document; search query embeddings have none
+  documentId?: string;
+  documentName?: string;
+  // Documents whose passages a chat answer was given; its spend is shared between them
+  referencedDocuments?: Array<{ documentId: string; documentName: string }>;
+}
+
+export type UsageRecord = Omit<UsageEntry, 'id' | 'timestamp' | 'cost' | 'totalTokens'>;
+
+export interface UsageTotals {
+  tokens: number;
+  cost: number;
+}
+
+export interface DailyUsage {
+  day: string;
+  chat: UsageTotals;
+  embedding: UsageTotals;
+}
+
+export interface DocumentUsage extends UsageTotals {
+  documentId: string;
+  documentName: string;
+  // The part of the totals spent on chat answers that drew on the document
+  chat: UsageTotals;
+}
+
+export interface UsageSummary {
+  chat: UsageTotals;
+  embedding: UsageTotals;
+  estimatedCount: number;
+  // Most recent day first
+  byDay: DailyUsage[];
+  // Largest spend first, embeddings and chat together; search query embeddings are grouped under an empty documentId
+  byDocument: DocumentUsage[];
+  byConversation: Map<string, UsageTotals>;
+}
+
+// Type import for LocalForage (available at runtime)
+type LocalForage = {
+  setItem: (key: string, value: unknown) => Promise<unknown>;
+  clear: () => Promise<void>;
+  iterate: (callback: (value: unknown, key: string) => void) => Promise<void>;
+};
+
+let usageDB: LocalForage | null = null;
+
+async function initializeDatabases() {
+  if (typeof window === 'undefined') {
+    throw new Error('Database operations only available in browser environment');
+  }
+
+  if (!usageDB) {
+    const localForage = (await import('localforage')).default;
+
+    usageDB = localForage.createInstance({
+      name: 'excellor-usage',
+      version: 1.0,
+      description: 'Token usage ledger for EXCELLOR AI'
+    });
+  }
+
+  return { usageDB };
+}
+
+/**
+ * Price and store one request's usage. Failures are logged, never thrown, so accounting
+ * cannot break chatting or indexing.
+ */
+export async function recordUsage(record: UsageRecord): Promise<UsageEntry | null> {
+  const entry: UsageEntry = {
+    ...record,
+    id: uuidv4(),
+    timestamp: new Date(),
+    totalTokens: record.promptTokens + record.completionTokens,
+    cost: estimateCost(record.model, record.promptTokens, record.completionTokens)
+  };
+
+  try {
+    const { usageDB } = await initializeDatabases();
+    await usageDB.setItem(entry.id, entry);
+    return entry;
+  } catch (error) {
+    console.error('Error recording usage:', error);
+    return null;
+  }
+}
+
+export async function getUsageEntries(): Promise<UsageEntry[]> {
+  try {
+    const { usageDB } = await initializeDatabases();
+    const entries: UsageEntry[] = [];
+    await usageDB.iterate((value: unknown) => {
+      const entry = value as UsageEntry;
+      entries.push({ ...entry, timestamp: new Date(entry.timestamp) });
+    });
+    return entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  } catch (error) {
+    console.error('Error loading usage:', error);
+    return [];
+  }
+}
+
+export async function clearUsage(): Promise<void> {
+  try {
+    const { usageDB } = await initializeDatabases();
+    await usageDB.clear();
+  } catch (error) {
+    console.error('Error clearing usage:', error);
+    throw new Error('Failed to clear usage');
+  }
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry, share: number = 1): void {
+  totals.tokens += entry.totalTokens * share;
+  totals.cost += entry.cost * share;
+}
+
+/**
+ * Local calendar day, so the dashboard matches the user's own days
+ */
+function dayOf(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Total the ledger by kind, day, document and conversation
+ */
+export function summarizeUsage(entries: UsageEntry[]): UsageSummary {
+  const summary: UsageSummary = {
+    chat: { tokens: 0, cost: 0 },
+    embedding: { tokens: 0, cost: 0 },
+    estimatedCount: 0,
+    byDay: [],
+    byDocument: [],
+    byConversation: new Map()
+  };
+  const days = new Map<string, DailyUsage>();
+  const documents = new Map<string, DocumentUsage>();
+  const documentFor = (documentId: string, documentName: string) => {
+    if (!documents.has(documentId)) {
+      documents.set(documentId, { documentId, documentName, tokens: 0, cost: 0, chat: { tokens: 0, cost: 0 } });
+    }
+    return documents.get(documentId)!;
+  };
+
+  for (const entry of entries) {
+    addTo(summary[entry.kind], entry);
+    if (entry.estimated) summary.estimatedCount++;
+
+    const day = dayOf(entry.timestamp);
+    if (!days.has(day)) {
+      days.set(day, { day, chat: { tokens: 0, cost: 0 }, embedding: { tokens: 0, cost: 0 } });
+    }
+    addTo(days.get(day)![entry.kind], entry);
+
+    if (entry.kind === 'embedding') {
+      addTo(documentFor(entry.documentId ?? '', entry.documentName ?? 'Search queries'), entry);
+    } else if (entry.referencedDocuments?.length) {
+      const share = 1 / entry.referencedDocuments.length;
+      for (const { documentId, documentName } of entry.referencedDocuments) {
+        const document = documentFor(documentId, documentName);
+        addTo(document, entry, share);
+        addTo(document.chat, entry, share);
+      }
+    }
+
+    if (entry.conversationId) {
+      if (!summary.byConversation.has(entry.conversationId)) {
+        summary.byConversation.set(entry.conversationId, { tokens: 0, cost: 0 });
+      }
+      addTo(summary.byConversation.get(entry.conversationId)!, entry);
+    }
+  }
+
+  summary.byDay = Array.from(days.values()).sort((a, b) => b.day.localeCompare(a.day));
+  summary.byDocument = Array.from(documents.values()).sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+  return summary;
+}
@@ -0,0 +1,55 @@
+/**
+ * List prices in US dollars per million tokens, used to turn token counts into spend.
+ * Models are matched by prefix, so dated versions (`gpt-4o-2024-08-06`) share a price.
+ * Unknown and local models count as free.
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  // Longer prefixes first, so `gpt-4o-mini` is not priced as `gpt-4o`
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-4', { input: 30, output: 60 }],
+  ['gpt-35-turbo', { input: 0.5, output: 1.5 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['text-embedding-3-large', { input: 0.13, output: 0 }],
+  ['text-embedding-3-small', { input: 0.02, output: 0 }],
+  ['text-embedding-ada-002', { input: 0.1, output: 0 }]
+];
+
+function findPrice(model: string): ModelPrice | undefined {
+  const name = model.toLowerCase();
+  return MODEL_PRICES.find(([prefix]) => name.startsWith(prefix))?.[1];
+}
+
+export function isPricedModel(model: string): boolean {
+  return findPrice(model) !== undefined;
+}
+
+/**
+ * Cost in US dollars of a request; embeddings only have input tokens
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number = 0): number {
+  const price = findPrice(model);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+export function formatCost(dollars: number): string {
+  if (dollars === 0) return '$0';
+  if (dollars < 0.01) return `$${dollars.toFixed(4)}`;
+  return `$${dollars.toFixed(2)}`;
+}
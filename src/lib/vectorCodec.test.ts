@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { decodeVector, encodeVector, truncateVector } from './vectorCodec';
+
+const vector = [0.5, -0.25, 0.125, -1, 0.75, 0, 0.3333, -0.0001];
+
+describe('encodeVector', () => {
+  it('round-trips float32 at float32 precision', () => {
+    const encoded = encodeVector(vector, 'float32');
+
+    expect(encoded).toMatchObject({ encoding: 'float32', dimensions: 8 });
+    expect(encoded.data.byteLength).toBe(32);
+    expect(Array.from(decodeVector(encoded))).toEqual(Array.from(Float32Array.from(vector)));
+  });
+
+  it('round-trips int8 within half a quantization step, mapping the largest component to ±127', () => {
+    const encoded = encodeVector(vector, 'int8');
+    const step = 1 / 127;
+
+    expect(encoded.data.byteLength).toBe(8);
+    expect(encoded.scale).toBeCloseTo(step);
+    expect(new Int8Array(encoded.data)[3]).toBe(-127);
+    decodeVector(encoded).forEach((value, i) => {
+      expect(Math.abs(value - vector[i])).toBeLessThanOrEqual(step / 2 + 1e-7);
+    });
+  });
+
+  it('survives structured cloning, as IndexedDB stores it', () => {
+    const encoded = structuredClone(encodeVector(vector, 'int8'));
+
+    expect(Array.from(decodeVector(encoded))).toEqual(Array.from(decodeVector(encodeVector(vector, 'int8'))));
+  });
+
+  it('encodes an all-zero vector without dividing by zero', () => {
+    const encoded = encodeVector([0, 0, 0], 'int8');
+
+    expect(encoded.scale).toBe(1);
+    expect(Array.from(decodeVector(encoded))).toEqual([0, 0, 0]);
+  });
+});
+
+describe('truncateVector', () => {
+  it('keeps the leading dimensions and rescales them to unit length', () => {
+    const truncated = truncateVector([3, 4, 12, 84], 2);
+
+    expect(truncated).toHaveLength(2);
+    expect(truncated[0]).toBeCloseTo(0.6);
+    expect(truncated[1]).toBeCloseTo(0.8);
+  });
+
+  it('keeps every dimension when asked for more than there are', () => {
+    expect(truncateVector([0, 2], 8)).toEqual(Float32Array.from([0, 1]));
+  });
+
+  it('leaves a zero prefix as zeros', () => {
+    expect(truncateVector([0, 0, 1], 2)).toEqual(Float32Array.from([0, 0]));
+  });
+});
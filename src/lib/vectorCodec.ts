@@ -0,0 +1,73 @@
+/**
+ * Binary layouts for stored vectors. float32 halves a JS number array (8 bytes per value);
+ * int8 quarters that again at a small cost in precision.
+ */
+export type VectorEncoding = 'float32' | 'int8';
+
+/**
+ * A vector as it is written to IndexedDB
+ */
+export interface EncodedVector {
+  encoding: VectorEncoding;
+  dimensions: number;
+  data: ArrayBuffer;
+  // int8 only: value = byte * scale
+  scale?: number;
+}
+
+export interface VectorStorageFormat {
+  encoding: VectorEncoding;
+  /** Keep only the first N dimensions (Matryoshka truncation); omit to keep them all */
+  dimensions?: number;
+}
+
+export function isVectorEncoding(value: unknown): value is VectorEncoding {
+  return value === 'float32' || value === 'int8';
+}
+
+/**
+ * Keep the leading dimensions of a Matryoshka embedding and scale it back to unit length.
+ * Models like text-embedding-3 are trained so these prefixes remain usable embeddings.
+ */
+export function truncateVector(vector: ArrayLike<number>, dimensions: number): Float32Array {
+  const truncated = Float32Array.from(Array.prototype.slice.call(vector, 0, Math.min(dimensions, vector.length)));
+  let sumOfSquares = 0;
+  for (let i = 0; i < truncated.length; i++) sumOfSquares += truncated[i] * truncated[i];
+
+  const magnitude = Math.sqrt(sumOfSquares);
+  if (magnitude > 0) {
+    for (let i = 0; i < truncated.length; i++) truncated[i] /= magnitude;
+  }
+  return truncated;
+}
+
+/**
+ * Encode a vector for storage. int8 uses symmetric per-vector scaling, so the largest
+ * component maps to ±127.
+ */
+export function encodeVector(vector: ArrayLike<number>, encoding: VectorEncoding): EncodedVector {
+  if (encoding === 'float32') {
+    return { encoding, dimensions: vector.length, data: Float32Array.from(vector).buffer };
+  }
+
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+  const bytes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) bytes[i] = Math.round(vector[i] / scale);
+
+  return { encoding, dimensions: vector.length, data: bytes.buffer, scale };
+}
+
+export function decodeVector(encoded: EncodedVector): Float32Array {
+  if (encoded.encoding === 'float32') {
+    return new Float32Array(encoded.data);
+  }
+
+  const bytes = new Int8Array(encoded.data);
+  const scale = encoded.scale ?? 1;
+  const vector = new Float32Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) vector[i] = bytes[i] * scale;
+  return vector;
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProcessedDocument } from './documentProcessor';
+import { decodeVector, EncodedVector } from './vectorCodec';
+
+// localforage stand-in: one Map per store, wiped between tests
+const stores = vi.hoisted(() => new Map<string, Map<string, unknown>>());
+
+vi.mock('localforage', () => ({
+  default: {
+    createInstance: ({ name }: { name: string }) => {
+      const store = stores.get(name) ?? new Map<string, unknown>();
+      stores.set(name, store);
+      return {
+        setItem: async (key: string, value: unknown) => store.set(key, structuredClone(value)),
+        getItem: async (key: string) => structuredClone(store.get(key) ?? null),
+        removeItem: async (key: string) => { store.delete(key); },
+        clear: async () => store.clear(),
+        iterate: async (callback: (value: unknown, key: string) => void) => {
+          store.forEach((value, key) => callback(structuredClone(value), key));
+        }
+      };
+    }
+  }
+}));
+
+vi.stubGlobal('window', {});
+
+const store = (name: string) => {
+  const existing = stores.get(name) ?? new Map<string, unknown>();
+  stores.set(name, existing);
+  return existing;
+};
+
+const provenance = { model: 'text-embedding-3-small', dimensions: 4, version: 1 };
+
+const chunk = (id: string, embedding?: number[]): ProcessedDocument['chunks'][number] => ({
+  id,
+  content: `Content of ${id}`,
+  metadata: { source: 'polity.pdf', chunkIndex: 0, type: 'pdf' },
+  embedding
+});
+
+describe('storage migration from schema 1', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    stores.forEach(existing => existing.clear());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('moves vectors into encoded embedding records, strips them from documents and drops orphans', async () => {
+    // Schema 1: vectors inline on the chunk, or as number arrays next to a copy of the chunk
+    store('excellor-documents').set('doc', {
+      id: 'doc',
+      name: 'polity.pdf',
+      type: 'pdf',
+      chunks: [chunk('inline', [0.1, 0.2, 0.3, 0.4]), chunk('separate')],
+      embeddingProvenance: provenance,
+      createdAt: new Date(2026, 0, 1)
+    });
+    store('excellor-embeddings').set('separate', {
+      documentId: 'doc',
+      embedding: [0.4, 0.3, 0.2, 0.1],
+      provenance,
+      content: 'Content of separate',
+      metadata: { source: 'polity.pdf', chunkIndex: 1, type: 'pdf' }
+    });
+    store('excellor-embeddings').set('orphan', { documentId: 'deleted', embedding: [1, 0, 0, 0], provenance });
+
+    const { getAllDocuments } = await import('./vectorDatabase');
+    const [document] = await getAllDocuments();
+
+    expect(document.chunks.map(migrated => migrated.embedding)).toEqual([undefined, undefined]);
+    expect(store('excellor-documents').get('doc')).toEqual(document);
+
+    const embeddings = store('excellor-embeddings');
+    expect([...embeddings.keys()].sort()).toEqual(['inline', 'separate']);
+    for (const [id, expected] of [['inline', [0.1, 0.2, 0.3, 0.4]], ['separate', [0.4, 0.3, 0.2, 0.1]]] as const) {
+      const record = embeddings.get(id) as { documentId: string; vector: EncodedVector };
+      expect(Object.keys(record).sort()).toEqual(['documentId', 'provenance', 'vector']);
+      expect(record.documentId).toBe('doc');
+      expect(Array.from(decodeVector(record.vector))).toEqual(Array.from(Float32Array.from(expected)));
+    }
+    expect(store('excellor-meta').get('schemaVersion')).toBe(2);
+  });
+
+  it('keeps chunks without provenance as vectorless records', async () => {
+    store('excellor-documents').set('doc', {
+      id: 'doc',
+      name: 'notes.txt',
+      type: 'txt',
+      chunks: [chunk('old', [0.1, 0.2, 0.3, 0.4])],
+      createdAt: new Date(2026, 0, 1)
+    });
+
+    const { getAllDocuments } = await import('./vectorDatabase');
+    await getAllDocuments();
+
+    expect(store('excellor-embeddings').get('old')).toEqual({ documentId: 'doc', provenance: undefined });
+  });
+
+  it('leaves stores already at schema 2 untouched', async () => {
+    const record = { documentId: 'gone', provenance };
+    store('excellor-meta').set('schemaVersion', 2);
+    store('excellor-embeddings').set('kept', record);
+
+    const { getAllDocuments } = await import('./vectorDatabase');
+    await getAllDocuments();
+
+    expect(store('excellor-embeddings').get('kept')).toEqual(record);
+  });
+});
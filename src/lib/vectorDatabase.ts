@@ -1,4 +1,20 @@
 import { DocumentChunk, ProcessedDocument } from './documentProcessor';
+import { EmbeddingProgress, EmbeddingRequestError, parseRetryAfter, runEmbeddingPipeline } from './embeddingPipeline';
+import {
+  EMBEDDING_VERSION,
+  EmbeddingProvenance,
+  fallbackProvenance,
+  isFallbackProvenance,
+  isSameProvenance,
+  provenanceKey
+} from './embeddingProvenance';
+import { buildKeywordEntry, KeywordDocumentEntry, KeywordIndex } from './keywordIndex';
+import { RankedHit, reciprocalRankFusion } from './rankFusion';
+import { estimateValueSize } from './storageSize';
+import { estimateTokens } from './tokens';
+import { recordUsage, UsageRecord } from './usageLedger';
+import { decodeVector, EncodedVector, encodeVector, isVectorEncoding, truncateVector, VectorStorageFormat } from './vectorCodec';
+import { VectorIndex } from './vectorIndex';
 
 // Re-export DocumentChunk for convenience
 export type { DocumentChunk } from './documentProcessor';
@@ -15,13 +31,17 @@ type LocalForage = {
 // Initialize databases only in browser
 let documentsDB: LocalForage | null = null;
 let embeddingsDB: LocalForage | null = null;
+let keywordsDB: LocalForage | null = null;
+let metaDB: LocalForage | null = null;
+let filesDB: LocalForage | null = null;
+let migrationPromise: Promise<void> | null = null;
 
 async function initializeDatabases() {
   if (typeof window === 'undefined') {
     throw new Error('Database operations only available in browser environment');
   }
 
-  if (!documentsDB || !embeddingsDB) {
+  if (!documentsDB || !embeddingsDB || !keywordsDB || !metaDB || !filesDB) {
     const localForage = (await import('localforage')).default;
 
     documentsDB = localForage.createInstance({
@@ -35,68 +55,427 @@ async function initializeDatabases() {
       version: 1.0,
       description: 'Embeddings storage for EXCELLOR AI RAG'
     });
+
+    keywordsDB = localForage.createInstance({
+      name: 'excellor-keywords',
+      version: 1.0,
+      description: 'Keyword index storage for EXCELLOR AI RAG'
+    });
+
+    metaDB = localForage.createInstance({
+      name: 'excellor-meta',
+      version: 1.0,
+      description: 'Storage schema bookkeeping for EXCELLOR AI RAG'
+    });
+
+    filesDB = localForage.createInstance({
+      name: 'excellor-files',
+      version: 1.0,
+      description: 'Original uploaded files for the EXCELLOR AI document viewer'
+    });
+  }
+
+  if (!migrationPromise) {
+    migrationPromise = migrateStorage(documentsDB, embeddingsDB, metaDB);
+    migrationPromise.catch(() => {
+      migrationPromise = null;
+    });
+  }
+  await migrationPromise;
+
+  return { documentsDB, embeddingsDB, keywordsDB, metaDB, filesDB };
+}
+
+// Version of the on-disk layout; bump it together with a new step in migrateStorage
+const STORAGE_SCHEMA_VERSION = 2;
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+/**
+ * Schema 1 embedding record: a plain number array plus a second copy of the chunk
+ */
+interface LegacyStoredChunk {
+  documentId: string;
+  embedding?: number[];
+  provenance?: EmbeddingProvenance;
+  content?: string;
+  metadata?: DocumentChunk['metadata'];
+}
+
+/**
+ * Bring stores written by older versions up to the current schema. Every step can be
+ * rerun safely, so an interrupted migration continues on the next load.
+ */
+async function migrateStorage(documentsDB: LocalForage, embeddingsDB: LocalForage, metaDB: LocalForage): Promise<void> {
+  const version = (await metaDB.getItem<number>(SCHEMA_VERSION_KEY)) ?? 1;
+  if (version >= STORAGE_SCHEMA_VERSION) return;
+
+  console.log(`Migrating document storage from schema ${version} to ${STORAGE_SCHEMA_VERSION}`);
+
+  // Schema 2: each vector is stored once, encoded, in embeddingsDB; documentsDB keeps the chunk text
+  const documentIds: string[] = [];
+  await documentsDB.iterate((_value: unknown, documentId: string) => {
+    documentIds.push(documentId);
+  });
+
+  for (const documentId of documentIds) {
+    const document = await documentsDB.getItem<ProcessedDocument>(documentId);
+    if (!document) continue;
+
+    for (const chunk of document.chunks) {
+      const record = await embeddingsDB.getItem<StoredChunk & LegacyStoredChunk>(chunk.id);
+      if (record?.vector) continue;
+
+      const embedding = chunk.embedding ?? record?.embedding;
+      const provenance = record?.provenance ?? document.embeddingProvenance;
+      const migrated: StoredChunk = { documentId, provenance };
+      // Vectors without provenance cannot be searched; the document shows up as stale instead
+      if (embedding && provenance) migrated.vector = encodeForStorage(embedding, provenance);
+      await embeddingsDB.setItem(chunk.id, migrated);
+    }
+
+    await documentsDB.setItem(documentId, withoutEmbeddings(document));
+  }
+
+  // Drop records left behind by documents that no longer exist
+  const knownDocuments = new Set(documentIds);
+  const orphans: string[] = [];
+  await embeddingsDB.iterate((value: unknown, chunkId: string) => {
+    if (!knownDocuments.has((value as StoredChunk).documentId)) orphans.push(chunkId);
+  });
+  for (const chunkId of orphans) {
+    await embeddingsDB.removeItem(chunkId);
   }
 
-  return { documentsDB, embeddingsDB };
+  await metaDB.setItem(SCHEMA_VERSION_KEY, STORAGE_SCHEMA_VERSION);
+  console.log(`Storage migrated: ${documentIds.length} documents, ${orphans.length} orphaned records removed`);
+}
+
+function withoutEmbeddings(document: ProcessedDocument): ProcessedDocument {
+  return {
+    ...document,
+    chunks: document.chunks.map(({ embedding, ...chunk }) => chunk)
+  };
 }
 
-// Azure OpenAI Configuration
-const AZURE_OPENAI_ENDPOINT = process.env.AZURE_OPENAI_ENDPOINT || 'https://xandar-resource.cognitiveservices.azure.com/openai/deployments/text-embedding-3-large/embeddings?api-version=2023-05-15';
-const AZURE_OPENAI_API_KEY = process.env.AZURE_OPENAI_API_KEY;
+let keywordIndexPromise: Promise<KeywordIndex> | null = null;
 
-// text-embedding-3-large has 3072 dimensions
+/**
+ * Load the BM25 keyword index into memory once, indexing any documents
+ * stored before keyword entries existed
+ */
+function getKeywordIndex(): Promise<KeywordIndex> {
+  if (!keywordIndexPromise) {
+    keywordIndexPromise = (async () => {
+      const { documentsDB, keywordsDB } = await initializeDatabases();
+      const index = new KeywordIndex();
+
+      await keywordsDB.iterate((value: unknown) => {
+        index.addDocument(value as KeywordDocumentEntry);
+      });
+
+      const missing: ProcessedDocument[] = [];
+      await documentsDB.iterate((value: unknown, documentId: string) => {
+        const document = value as ProcessedDocument;
+        if (!index.hasDocument(documentId)) missing.push(document);
+      });
+      for (const document of missing) {
+        const entry = buildKeywordEntry(document.id, document.chunks);
+        await keywordsDB.setItem(document.id, entry);
+        index.addDocument(entry);
+      }
+
+      console.log(`Keyword index loaded with ${index.size} chunks`);
+      return index;
+    })();
+    keywordIndexPromise.catch(() => {
+      keywordIndexPromise = null;
+    });
+  }
+  return keywordIndexPromise;
+}
+
+const HIDDEN_DOCUMENTS_KEY = 'hiddenDocuments';
+
+// Documents deleted with undo still pending: kept on disk, excluded from search and listings
+const hiddenDocuments = new Set<string>();
+
+async function saveHiddenDocuments(): Promise<void> {
+  const { metaDB } = await initializeDatabases();
+  await metaDB.setItem(HIDDEN_DOCUMENTS_KEY, Array.from(hiddenDocuments));
+}
+
+/**
+ * Hide a document from search and listings without deleting its data, so the deletion
+ * can still be undone. The hidden set is persisted; see purgeHiddenDocuments.
+ */
+export async function hideDocument(documentId: string): Promise<void> {
+  hiddenDocuments.add(documentId);
+  await saveHiddenDocuments();
+}
+
+export async function unhideDocument(documentId: string): Promise<void> {
+  hiddenDocuments.delete(documentId);
+  await saveHiddenDocuments();
+}
+
+/**
+ * Delete documents that were still hidden when an earlier session ended
+ */
+export async function purgeHiddenDocuments(): Promise<number> {
+  const { metaDB } = await initializeDatabases();
+  const stored = (await metaDB.getItem<string[]>(HIDDEN_DOCUMENTS_KEY)) ?? [];
+  const leftovers = stored.filter(documentId => !hiddenDocuments.has(documentId));
+
+  for (const documentId of leftovers) {
+    await deleteDocument(documentId);
+  }
+  if (leftovers.length > 0) {
+    console.log(`Purged ${leftovers.length} documents deleted in an earlier session`);
+  }
+  return leftovers.length;
+}
+
+/**
+ * Chunks and vectors held in memory for search, with one vector index per provenance
+ * and stored dimensionality
+ */
+interface SearchIndex {
+  chunks: Map<string, DocumentChunk & { documentId: string }>;
+  vectors: Map<string, { provenance: EmbeddingProvenance; index: VectorIndex }>;
+}
+
+let searchIndexPromise: Promise<SearchIndex> | null = null;
+
+/**
+ * Load every stored chunk into memory once; later writes and deletes update it incrementally
+ */
+function getSearchIndex(): Promise<SearchIndex> {
+  if (!searchIndexPromise) {
+    searchIndexPromise = (async () => {
+      const { documentsDB, embeddingsDB } = await initializeDatabases();
+      const searchIndex: SearchIndex = { chunks: new Map(), vectors: new Map() };
+
+      await documentsDB.iterate((value: unknown) => {
+        indexDocumentChunks(searchIndex, value as ProcessedDocument);
+      });
+      await embeddingsDB.iterate((value: unknown, chunkId: string) => {
+        indexVector(searchIndex, chunkId, value as StoredChunk);
+      });
+
+      console.log(`Search index loaded with ${searchIndex.chunks.size} chunks`);
+      return searchIndex;
+    })();
+    searchIndexPromise.catch(() => {
+      searchIndexPromise = null;
+    });
+  }
+  return searchIndexPromise;
+}
+
+function indexDocumentChunks(searchIndex: SearchIndex, document: ProcessedDocument): void {
+  for (const chunk of document.chunks) {
+    searchIndex.chunks.set(chunk.id, { ...chunk, documentId: document.id });
+  }
+}
+
+function indexVector(searchIndex: SearchIndex, chunkId: string, record: StoredChunk): void {
+  // Chunks stored before provenance was recorded are only reachable through keywords
+  if (!record.vector || !record.provenance) return;
+
+  const key = `${provenanceKey(record.provenance)}#${record.vector.dimensions}`;
+  let entry = searchIndex.vectors.get(key);
+  if (!entry) {
+    entry = { provenance: record.provenance, index: new VectorIndex(record.vector.dimensions, { ivf: {} }) };
+    searchIndex.vectors.set(key, entry);
+  }
+  entry.index.add(chunkId, record.documentId, decodeVector(record.vector));
+}
+
+function unindexDocument(searchIndex: SearchIndex, documentId: string): void {
+  for (const [chunkId, chunk] of searchIndex.chunks) {
+    if (chunk.documentId === documentId) searchIndex.chunks.delete(chunkId);
+  }
+  for (const { index } of searchIndex.vectors.values()) {
+    index.removeDocument(documentId);
+  }
+}
+
+// Embeddings are generated server-side so the provider key never ships to the browser
+const EMBEDDINGS_API_URL = '/api/embeddings';
+
+// Size of the local fallback vectors (matches text-embedding-3-large)
 const EMBEDDING_DIMENSIONS = 3072;
 
+const FALLBACK_PROVENANCE = fallbackProvenance(EMBEDDING_DIMENSIONS);
+
 /**
- * Generate embeddings for text using Azure OpenAI
+ * Embedding model configured on the server
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export interface EmbeddingServiceInfo {
+  configured: boolean;
+  provenance: EmbeddingProvenance;
+  maxBatchSize: number;
+}
+
+// How vectors are written to disk; int8 and truncation trade a little recall for space
+const VECTOR_STORAGE_FORMAT: VectorStorageFormat = {
+  encoding: isVectorEncoding(process.env.NEXT_PUBLIC_VECTOR_ENCODING) ? process.env.NEXT_PUBLIC_VECTOR_ENCODING : 'float32',
+  dimensions: Number(process.env.NEXT_PUBLIC_VECTOR_DIMENSIONS) || undefined
+};
+
+/**
+ * Record stored in embeddingsDB for every chunk; the chunk itself lives in documentsDB
+ */
+interface StoredChunk {
+  documentId: string;
+  provenance?: EmbeddingProvenance;
+  vector?: EncodedVector;
+}
+
+/**
+ * Encode a vector in the configured storage format. Fallback vectors are hash buckets
+ * rather than Matryoshka embeddings, so they are never truncated.
+ */
+function encodeForStorage(embedding: number[], provenance: EmbeddingProvenance): EncodedVector {
+  const { encoding, dimensions } = VECTOR_STORAGE_FORMAT;
+  const truncate = dimensions && dimensions < embedding.length && !isFallbackProvenance(provenance);
+  return encodeVector(truncate ? truncateVector(embedding, dimensions) : embedding, encoding);
+}
+
+let serviceInfoPromise: Promise<EmbeddingServiceInfo> | null = null;
+
+/**
+ * Ask the server which embedding model is configured. Successful answers are cached;
+ * failures are retried on the next call.
+ */
+export async function getEmbeddingServiceInfo(): Promise<EmbeddingServiceInfo> {
+  if (!serviceInfoPromise) {
+    serviceInfoPromise = (async () => {
+      const response = await fetch(EMBEDDINGS_API_URL);
+      if (!response.ok) {
+        throw new Error(`Embedding service unavailable: ${response.status}`);
+      }
+      const data = await response.json();
+      return {
+        configured: !!data.configured,
+        provenance: { model: data.model, dimensions: data.dimensions, version: EMBEDDING_VERSION },
+        maxBatchSize: data.maxBatchSize
+      };
+    })();
+    serviceInfoPromise.catch(() => {
+      serviceInfoPromise = null;
+    });
+  }
+
   try {
-    if (!AZURE_OPENAI_API_KEY) {
-      console.warn('Azure OpenAI API key not configured, using fallback');
-      return generateSimpleVector(text);
-    }
+    return await serviceInfoPromise;
+  } catch (error) {
+    console.warn('Could not reach embedding service:', error);
+    return { configured: false, provenance: FALLBACK_PROVENANCE, maxBatchSize: 1 };
+  }
+}
 
-    console.log('Generating embedding for text:', text.substring(0, 100) + '...');
+/**
+ * Whether vectors can currently be generated with the embedding API
+ */
+export async function isEmbeddingApiConfigured(): Promise<boolean> {
+  return (await getEmbeddingServiceInfo()).configured;
+}
+
+/**
+ * Provenance of vectors that new uploads receive right now
+ */
+export async function getCurrentEmbeddingProvenance(): Promise<EmbeddingProvenance> {
+  const info = await getEmbeddingServiceInfo();
+  return info.configured ? info.provenance : FALLBACK_PROVENANCE;
+}
+
+/**
+ * Generate an embedding for a single text through the embeddings API
+ */
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text]);
+  return embedding;
+}
 
-    const response = await fetch(AZURE_OPENAI_ENDPOINT, {
+/**
+ * Generate embeddings for a batch of texts in a single request to the embeddings API.
+ * This never falls back to local vectors, so callers can retry or fail cleanly.
+ * The tokens spent are recorded in the usage ledger against the given document, if any.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  usageSource: Pick<UsageRecord, 'documentId' | 'documentName'> = {}
+): Promise<number[][]> {
+  const { provenance } = await getEmbeddingServiceInfo();
+
+  let response: Response;
+  try {
+    response = await fetch(EMBEDDINGS_API_URL, {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'api-key': AZURE_OPENAI_API_KEY
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        input: text
+        input: texts
       })
     });
+  } catch (error) {
+    throw new EmbeddingRequestError(`Network error: ${error instanceof Error ? error.message : 'Unknown error'}`, undefined, undefined, true);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Azure OpenAI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new EmbeddingRequestError(
+      `Embedding API error: ${response.status} - ${errorData?.error?.message ?? response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after')),
+      // A used-up daily quota will not come back within any retry
+      errorData?.error?.code === 'quota_exceeded' ? false : undefined
+    );
+  }
 
-    if (!data.data || !data.data[0] || !data.data[0].embedding) {
-      throw new Error('Invalid response format from Azure OpenAI API');
-    }
+  const data = await response.json();
 
-    const embedding = data.data[0].embedding;
+  // Refuse vectors from a model other than the one we are about to tag them with
+  if (data.model !== provenance.model || data.dimensions !== provenance.dimensions) {
+    serviceInfoPromise = null;
+    throw new EmbeddingRequestError(`Embedding model changed on the server (now ${data.model}@${data.dimensions}); please retry`, 409);
+  }
 
-    if (!Array.isArray(embedding) || embedding.length !== EMBEDDING_DIMENSIONS) {
-      throw new Error(`Invalid embedding dimensions: expected ${EMBEDDING_DIMENSIONS}, got ${embedding.length}`);
-    }
+  const reportedTokens = data.usage?.prompt_tokens ?? data.usage?.total_tokens;
+  await recordUsage({
+    kind: 'embedding',
+    model: data.model,
+    promptTokens: reportedTokens ?? texts.reduce((sum, text) => sum + estimateTokens(text), 0),
+    completionTokens: 0,
+    estimated: reportedTokens === undefined,
+    ...usageSource
+  });
 
-    console.log('Azure embedding generated successfully, dimensions:', embedding.length);
-    return embedding;
+  if (!Array.isArray(data.data)) {
+    throw new EmbeddingRequestError('Invalid response format from embeddings API');
+  }
 
-  } catch (error) {
-    console.error('Error generating Azure embedding:', error);
+  // Each item carries the index of its input; every input must get exactly one vector
+  const embeddings: Array<number[] | undefined> = new Array(texts.length).fill(undefined);
+  for (const item of data.data as Array<{ index: unknown; embedding: unknown }>) {
+    const index = item?.index;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= texts.length || embeddings[index]) {
+      throw new EmbeddingRequestError(`Invalid embedding index in response: ${String(index)}`);
+    }
+    if (!Array.isArray(item.embedding) || item.embedding.length !== provenance.dimensions) {
+      throw new EmbeddingRequestError(`Invalid embedding for input ${index}: expected ${provenance.dimensions} dimensions`);
+    }
+    embeddings[index] = item.embedding as number[];
+  }
 
-    // Fallback to simple vector generation
-    console.log('Falling back to simple vector generation');
-    return generateSimpleVector(text);
+  const missing = embeddings.findIndex(embedding => !embedding);
+  if (missing !== -1) {
+    throw new EmbeddingRequestError(`Embeddings API returned no vector for input ${missing}`);
   }
+
+  return embeddings as number[][];
 }
 
 /**
@@ -135,47 +514,147 @@ function simpleHash(str: string): number {
 }
 
 /**
- * Store document with embeddings
+ * Embed every chunk of a document the same way: either all through the embeddings API
+ * or, when the server has no API key configured, all with the local fallback vectors
  */
-export async function storeDocument(document: ProcessedDocument): Promise<void> {
-  try {
-    const { documentsDB, embeddingsDB } = await initializeDatabases();
-    console.log(`Processing document: ${document.name}`);
+async function embedChunks(
+  document: ProcessedDocument,
+  onProgress?: (progress: EmbeddingProgress) => void
+): Promise<{ embeddings: number[][]; provenance: EmbeddingProvenance }> {
+  const texts = document.chunks.map(chunk => chunk.content);
+  const info = await getEmbeddingServiceInfo();
+
+  if (info.configured) {
+    const usageSource = { documentId: document.id, documentName: document.name };
+    const embeddings = await runEmbeddingPipeline(texts, batch => generateEmbeddings(batch, usageSource), {
+      batchSize: Math.min(16, info.maxBatchSize),
+      onProgress
+    });
+    return { embeddings, provenance: info.provenance };
+  }
 
-    // Generate embeddings for all chunks
-    const chunksWithEmbeddings = await Promise.all(
-      document.chunks.map(async (chunk, index) => {
-        console.log(`Generating embedding for chunk ${index + 1}/${document.chunks.length}`);
-        const embedding = await generateEmbedding(chunk.content);
-        return { ...chunk, embedding };
-      })
-    );
+  console.warn('Embedding API not configured, using fallback vectors for the whole document');
+  onProgress?.({ completed: texts.length, total: texts.length });
+  return { embeddings: texts.map(generateSimpleVector), provenance: FALLBACK_PROVENANCE };
+}
+
+/**
+ * Write a document and its per-chunk embedding records
+ */
+async function writeDocument(document: ProcessedDocument, embeddings: number[][], provenance: EmbeddingProvenance): Promise<void> {
+  const { documentsDB, embeddingsDB, keywordsDB } = await initializeDatabases();
+
+  const storedDocument: ProcessedDocument = {
+    ...withoutEmbeddings(document),
+    embeddingProvenance: provenance
+  };
+
+  // Store document
+  await documentsDB.setItem(document.id, storedDocument);
+
+  const searchIndex = searchIndexPromise ? await getSearchIndex() : null;
+  if (searchIndex) {
+    unindexDocument(searchIndex, document.id);
+    indexDocumentChunks(searchIndex, storedDocument);
+  }
 
-    const documentWithEmbeddings = {
-      ...document,
-      chunks: chunksWithEmbeddings
+  // Store each vector once, encoded, keyed by chunk
+  for (const [index, chunk] of document.chunks.entries()) {
+    const record: StoredChunk = {
+      documentId: document.id,
+      provenance,
+      vector: encodeForStorage(embeddings[index], provenance)
     };
+    await embeddingsDB.setItem(chunk.id, record);
+    if (searchIndex) indexVector(searchIndex, chunk.id, record);
+  }
+
+  // Index keywords for hybrid search
+  const keywordEntry = buildKeywordEntry(document.id, document.chunks);
+  await keywordsDB.setItem(document.id, keywordEntry);
+  if (keywordIndexPromise) {
+    (await getKeywordIndex()).addDocument(keywordEntry);
+  }
+}
 
-    // Store document
-    await documentsDB.setItem(document.id, documentWithEmbeddings);
+/**
+ * Store document with embeddings, and the uploaded file itself when given so it can be viewed later
+ */
+export async function storeDocument(
+  document: ProcessedDocument,
+  options: { onProgress?: (progress: EmbeddingProgress) => void; original?: Blob } = {}
+): Promise<void> {
+  let writing = false;
+  try {
+    console.log(`Processing document: ${document.name}`);
 
-    // Store individual chunk embeddings for faster retrieval
-    for (const chunk of chunksWithEmbeddings) {
-      await embeddingsDB.setItem(chunk.id, {
-        documentId: document.id,
-        embedding: chunk.embedding,
-        content: chunk.content,
-        metadata: chunk.metadata
-      });
+    const { embeddings, provenance } = await embedChunks(document, options.onProgress);
+    writing = true;
+    if (options.original) {
+      const { filesDB } = await initializeDatabases();
+      await filesDB.setItem(document.id, options.original);
     }
+    await writeDocument({ ...document, hasOriginal: !!options.original }, embeddings, provenance);
 
-    console.log(`Document ${document.name} stored successfully with ${chunksWithEmbeddings.length} chunks`);
+    console.log(`Document ${document.name} stored successfully with ${document.chunks.length} chunks (${provenanceKey(provenance)})`);
   } catch (error) {
     console.error('Error storing document:', error);
+    // A stored file or partial records without a listed document could never be deleted from the UI
+    if (writing) {
+      await deleteDocument(document.id).catch(cleanupError => console.error('Error removing partly stored document:', cleanupError));
+    }
     throw new Error(`Failed to store document: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Whether a document's vectors are older than, or weaker than, what the current configuration produces
+ */
+export function isDocumentStale(document: ProcessedDocument, currentProvenance: EmbeddingProvenance): boolean {
+  return !isSameProvenance(document.embeddingProvenance, currentProvenance);
+}
+
+/**
+ * Get documents whose vectors should be regenerated
+ */
+export async function getStaleDocuments(): Promise<ProcessedDocument[]> {
+  const [documents, currentProvenance] = await Promise.all([getAllDocuments(), getCurrentEmbeddingProvenance()]);
+  return documents.filter(document => isDocumentStale(document, currentProvenance));
+}
+
+/**
+ * Re-embed documents with fallback or outdated vectors using the current embedding model.
+ * Each document is upgraded all at once, so it never ends up with mixed vectors.
+ */
+export async function reembedStaleDocuments(
+  onProgress?: (progress: EmbeddingProgress & { documentName: string }) => void
+): Promise<{ upgraded: number; failed: number }> {
+  if (!(await isEmbeddingApiConfigured())) {
+    throw new Error('Embedding API is not configured; fallback vectors cannot be upgraded yet');
+  }
+
+  const staleDocuments = await getStaleDocuments();
+  let upgraded = 0;
+  let failed = 0;
+
+  for (const document of staleDocuments) {
+    try {
+      const { embeddings, provenance } = await embedChunks(
+        document,
+        progress => onProgress?.({ ...progress, documentName: document.name })
+      );
+      await writeDocument(document, embeddings, provenance);
+      upgraded++;
+      console.log(`Re-embedded ${document.name} (${provenanceKey(provenance)})`);
+    } catch (error) {
+      failed++;
+      console.error(`Failed to re-embed ${document.name}:`, error);
+    }
+  }
+
+  return { upgraded, failed };
+}
+
 /**
  * Get all stored documents
  */
@@ -183,8 +662,8 @@ export async function getAllDocuments(): Promise<ProcessedDocument[]> {
   try {
     const { documentsDB } = await initializeDatabases();
     const documents: ProcessedDocument[] = [];
-    await documentsDB.iterate((value: unknown) => {
-      documents.push(value as ProcessedDocument);
+    await documentsDB.iterate((value: unknown, documentId: string) => {
+      if (!hiddenDocuments.has(documentId)) documents.push(value as ProcessedDocument);
     });
     return documents.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   } catch (error) {
@@ -194,20 +673,45 @@ export async function getAllDocuments(): Promise<ProcessedDocument[]> {
 }
 
 /**
- * Delete a document and its embeddings
+ * The file a document was uploaded from, or null for documents stored before originals were kept
+ */
+export async function getOriginalFile(documentId: string): Promise<Blob | null> {
+  try {
+    const { filesDB } = await initializeDatabases();
+    return await filesDB.getItem<Blob>(documentId);
+  } catch (error) {
+    console.error('Error loading original file:', error);
+    throw new Error('Failed to load original file');
+  }
+}
+
+/**
+ * Delete a document, its embeddings and its original file
  */
 export async function deleteDocument(documentId: string): Promise<void> {
   try {
-    const { documentsDB, embeddingsDB } = await initializeDatabases();
+    const { documentsDB, embeddingsDB, keywordsDB, filesDB } = await initializeDatabases();
+    await filesDB.removeItem(documentId);
     const document = await documentsDB.getItem<ProcessedDocument>(documentId);
     if (document) {
       // Delete chunk embeddings
       for (const chunk of document.chunks) {
         await embeddingsDB.removeItem(chunk.id);
       }
+      if (searchIndexPromise) {
+        unindexDocument(await getSearchIndex(), documentId);
+      }
+      // Delete keyword entries
+      await keywordsDB.removeItem(documentId);
+      if (keywordIndexPromise) {
+        (await getKeywordIndex()).removeDocument(documentId);
+      }
       // Delete document
       await documentsDB.removeItem(documentId);
     }
+    if (hiddenDocuments.delete(documentId)) {
+      await saveHiddenDocuments();
+    }
   } catch (error) {
     console.error('Error deleting document:', error);
     throw new Error('Failed to delete document');
@@ -215,7 +719,9 @@ export async function deleteDocument(documentId: string): Promise<void> {
 }
 
 /**
- * Search for relevant chunks using similarity search
+ * Search for relevant chunks with hybrid retrieval: cosine similarity over vectors and
+ * BM25 over keywords run side by side, merged with reciprocal rank fusion.
+ * Chunks are only compared with a query vector of the same provenance.
  */
 export async function searchSimilarChunks(
   query: string,
@@ -225,44 +731,53 @@ export async function searchSimilarChunks(
   try {
     console.log(`Searching for: "${query}"`);
 
-    // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query);
-
-    // Get all embeddings
-    const allChunks: Array<DocumentChunk & { similarity: number }> = [];
+    // Each retriever contributes a deeper candidate pool than we return, so fusion has room to work
+    const poolSize = Math.max(20, topK * 4);
 
-    const { embeddingsDB } = await initializeDatabases();
-    await embeddingsDB.iterate((value: unknown, chunkId: string) => {
-      const embeddingData = value as { embedding?: number[]; content?: string; metadata?: unknown };
-      if (embeddingData.embedding && embeddingData.content) {
-        // Calculate cosine similarity
-        const similarity = cosineSimilarity(queryEmbedding, embeddingData.embedding);
-
-        if (similarity > threshold) {
-          allChunks.push({
-            id: chunkId,
-            content: embeddingData.content,
-            metadata: embeddingData.metadata as { source: string; page?: number; chunkIndex: number; type: 'pdf' | 'docx' | 'txt' },
-            embedding: embeddingData.embedding,
-            similarity
-          });
-        }
-      }
-    });
+    const { chunks, vectors } = await getSearchIndex();
+    const isVisible = (chunkId: string) => {
+      const chunk = chunks.get(chunkId);
+      return !!chunk && !hiddenDocuments.has(chunk.documentId);
+    };
 
-    // Sort by similarity and return top K
-    const sortedChunks = allChunks
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, topK);
+    // Each provenance is searched with a query vector from the same model
+    const vectorHits: RankedHit[] = [];
+    const queryEmbeddings = new Map<string, number[] | null>();
+    for (const { provenance, index } of vectors.values()) {
+      const key = provenanceKey(provenance);
+      if (!queryEmbeddings.has(key)) queryEmbeddings.set(key, await queryVectorFor(query, provenance));
+
+      const queryEmbedding = queryEmbeddings.get(key);
+      if (!queryEmbedding) continue;
+      // Truncated vectors are compared with the same prefix of the query
+      const queryVector = queryEmbedding.length > index.dimensions
+        ? truncateVector(queryEmbedding, index.dimensions)
+        : queryEmbedding;
+      vectorHits.push(...index.search(queryVector, poolSize, threshold).filter(hit => isVisible(hit.id)));
+    }
+    vectorHits.sort((a, b) => b.score - a.score);
+
+    const keywordHits: RankedHit[] = (await getKeywordIndex())
+      .search(query, poolSize)
+      .filter(hit => isVisible(hit.chunkId))
+      .map(hit => ({ id: hit.chunkId, score: hit.score }));
+
+    const fused = reciprocalRankFusion(vectorHits.slice(0, poolSize), keywordHits);
+    const results = Array.from(fused)
+      .sort(([, a], [, b]) => b.fused - a.fused)
+      .slice(0, topK)
+      .map(([id, retrieval]) => {
+        return { ...chunks.get(id)!, retrieval };
+      });
 
-    console.log(`Found ${sortedChunks.length} relevant chunks`);
+    console.log(`Found ${results.length} relevant chunks (${vectorHits.length} vector hits, ${keywordHits.length} keyword hits)`);
 
-    // If no good matches found, try fuzzy text search as fallback
-    if (sortedChunks.length === 0) {
+    // If neither retriever matched, try fuzzy text search as fallback
+    if (results.length === 0) {
       return await fallbackTextSearch(query, topK);
     }
 
-    return sortedChunks;
+    return results;
   } catch (error) {
     console.error('Error searching chunks:', error);
     // Fallback to text search
@@ -270,24 +785,36 @@ export async function searchSimilarChunks(
   }
 }
 
+/**
+ * Embed the query in the vector space of the given provenance, or return null
+ * when that space cannot be produced right now (API down, or a retired model)
+ */
+async function queryVectorFor(query: string, provenance: EmbeddingProvenance): Promise<number[] | null> {
+  if (isFallbackProvenance(provenance)) {
+    return isSameProvenance(provenance, FALLBACK_PROVENANCE) ? generateSimpleVector(query) : null;
+  }
+
+  const info = await getEmbeddingServiceInfo();
+  if (!info.configured || !isSameProvenance(provenance, info.provenance)) {
+    return null;
+  }
+
+  try {
+    return await generateEmbedding(query);
+  } catch (error) {
+    console.warn('Query embedding failed, skipping API vectors for this search:', error);
+    return null;
+  }
+}
+
 /**
  * Fallback fuzzy text search when embedding search fails
  */
 async function fallbackTextSearch(query: string, topK: number): Promise<DocumentChunk[]> {
   console.log('Using fallback text search');
 
-  const { embeddingsDB } = await initializeDatabases();
-  const allChunks: DocumentChunk[] = [];
-  await embeddingsDB.iterate((value: unknown, chunkId: string) => {
-    const embeddingData = value as { content?: string; metadata?: unknown };
-    if (embeddingData.content) {
-      allChunks.push({
-        id: chunkId,
-        content: embeddingData.content,
-        metadata: embeddingData.metadata as { source: string; page?: number; chunkIndex: number; type: 'pdf' | 'docx' | 'txt' }
-      });
-    }
-  });
+  const allChunks: DocumentChunk[] = Array.from((await getSearchIndex()).chunks.values())
+    .filter(chunk => !hiddenDocuments.has(chunk.documentId));
 
   // Dynamic import for client-side only
   const Fuse = (await import('fuse.js')).default;
@@ -302,54 +829,191 @@ async function fallbackTextSearch(query: string, topK: number): Promise<Document
 }
 
 /**
- * Calculate cosine similarity between two vectors
+ * Bytes one document occupies in each store
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
+export interface DocumentStorageUsage {
+  documentId: string;
+  name: string;
+  chunkCount: number;
+  documentBytes: number;
+  vectorBytes: number;
+  keywordBytes: number;
+  fileBytes: number;
+  totalBytes: number;
+}
 
-  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
+/**
+ * Storage granted to this origin, as reported by navigator.storage.estimate()
+ */
+export interface StorageQuota {
+  usage: number;
+  quota: number;
+}
 
-  if (magnitudeA === 0 || magnitudeB === 0) return 0;
+export interface StorageStats {
+  documentCount: number;
+  chunkCount: number;
+  totalBytes: number;
+  stores: { documents: number; vectors: number; keywords: number; files: number };
+  // Largest first
+  documents: DocumentStorageUsage[];
+  quota: StorageQuota | null;
+}
 
-  return dotProduct / (magnitudeA * magnitudeB);
+/**
+ * Outcome of checking whether a document fits in the remaining storage
+ */
+export interface StorageCheck {
+  requiredBytes: number;
+  quota: StorageQuota | null;
+  exceedsQuota: boolean;
+  // The upload fits but leaves the origin above QUOTA_WARNING_RATIO of its quota
+  nearQuota: boolean;
 }
 
+// Share of the quota above which uploads and the stats bar warn
+export const QUOTA_WARNING_RATIO = 0.8;
+
 /**
- * Get storage statistics
+ * Read the origin's storage usage and quota, when the browser exposes them
  */
-export async function getStorageStats(): Promise<{
-  documentCount: number;
-  chunkCount: number;
-  totalSize: string;
-}> {
+export async function getStorageQuota(): Promise<StorageQuota | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch (error) {
+    console.warn('Storage estimate unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Get storage statistics, with sizes measured per document and per store
+ */
+export async function getStorageStats(): Promise<StorageStats> {
   try {
-    const documents = await getAllDocuments();
-    const totalChunks = documents.reduce((sum, doc) => sum + doc.chunks.length, 0);
+    const { documentsDB, embeddingsDB, keywordsDB, filesDB } = await initializeDatabases();
+    const usage = new Map<string, DocumentStorageUsage>();
+    const stores = { documents: 0, vectors: 0, keywords: 0, files: 0 };
+
+    await documentsDB.iterate((value: unknown, documentId: string) => {
+      const document = value as ProcessedDocument;
+      const bytes = documentId.length * 2 + estimateValueSize(document);
+      stores.documents += bytes;
+      usage.set(documentId, {
+        documentId,
+        name: document.name,
+        chunkCount: document.chunks.length,
+        documentBytes: bytes,
+        vectorBytes: 0,
+        keywordBytes: 0,
+        fileBytes: 0,
+        totalBytes: 0
+      });
+    });
+
+    // Records without a document still count towards their store
+    await embeddingsDB.iterate((value: unknown, chunkId: string) => {
+      const bytes = chunkId.length * 2 + estimateValueSize(value);
+      stores.vectors += bytes;
+      const entry = usage.get((value as StoredChunk).documentId);
+      if (entry) entry.vectorBytes += bytes;
+    });
+
+    await keywordsDB.iterate((value: unknown, documentId: string) => {
+      const bytes = documentId.length * 2 + estimateValueSize(value);
+      stores.keywords += bytes;
+      const entry = usage.get(documentId);
+      if (entry) entry.keywordBytes += bytes;
+    });
+
+    await filesDB.iterate((value: unknown, documentId: string) => {
+      const bytes = documentId.length * 2 + estimateValueSize(value);
+      stores.files += bytes;
+      const entry = usage.get(documentId);
+      if (entry) entry.fileBytes += bytes;
+    });
+
+    // Documents awaiting undo are not listed, though their bytes stay in the store totals until purged
+    const documents = Array.from(usage.values())
+      .filter(entry => !hiddenDocuments.has(entry.documentId))
+      .map(entry => ({ ...entry, totalBytes: entry.documentBytes + entry.vectorBytes + entry.keywordBytes + entry.fileBytes }))
+      .sort((a, b) => b.totalBytes - a.totalBytes);
 
     return {
       documentCount: documents.length,
-      chunkCount: totalChunks,
-      totalSize: `~${Math.round(totalChunks * 0.5)}KB` // Rough estimate
+      chunkCount: documents.reduce((sum, entry) => sum + entry.chunkCount, 0),
+      totalBytes: stores.documents + stores.vectors + stores.keywords + stores.files,
+      stores,
+      documents,
+      quota: await getStorageQuota()
     };
-  } catch {
+  } catch (error) {
+    console.error('Error getting storage stats:', error);
     return {
       documentCount: 0,
       chunkCount: 0,
-      totalSize: '0KB'
+      totalBytes: 0,
+      stores: { documents: 0, vectors: 0, keywords: 0, files: 0 },
+      documents: [],
+      quota: null
     };
   }
 }
 
+/**
+ * Estimate the bytes a processed document will occupy once stored with the current embedding model,
+ * together with its original file if that is kept
+ */
+export async function estimateDocumentStorage(document: ProcessedDocument, original?: Blob): Promise<number> {
+  const provenance = await getCurrentEmbeddingProvenance();
+  const sampleRecord: StoredChunk = {
+    documentId: document.id,
+    provenance,
+    vector: encodeForStorage(new Array(provenance.dimensions).fill(0), provenance)
+  };
+  const recordBytes = estimateValueSize(sampleRecord);
+
+  return document.id.length * (original ? 6 : 4) + (original?.size ?? 0) +
+    estimateValueSize({ ...withoutEmbeddings(document), embeddingProvenance: provenance }) +
+    estimateValueSize(buildKeywordEntry(document.id, document.chunks)) +
+    document.chunks.reduce((sum, chunk) => sum + chunk.id.length * 2 + recordBytes, 0);
+}
+
+/**
+ * Check a processed document against the remaining quota before embedding and storing it
+ */
+export async function checkStorageForDocument(document: ProcessedDocument, original?: Blob): Promise<StorageCheck> {
+  const [requiredBytes, quota] = await Promise.all([estimateDocumentStorage(document, original), getStorageQuota()]);
+  if (!quota) {
+    return { requiredBytes, quota, exceedsQuota: false, nearQuota: false };
+  }
+
+  const usageAfter = quota.usage + requiredBytes;
+  return {
+    requiredBytes,
+    quota,
+    exceedsQuota: usageAfter > quota.quota,
+    nearQuota: usageAfter > quota.quota * QUOTA_WARNING_RATIO
+  };
+}
+
 /**
  * Clear all stored documents and embeddings
  */
 export async function clearAllDocuments(): Promise<void> {
   try {
-    const { documentsDB, embeddingsDB } = await initializeDatabases();
+    const { documentsDB, embeddingsDB, keywordsDB, metaDB, filesDB } = await initializeDatabases();
     await documentsDB.clear();
     await embeddingsDB.clear();
+    await keywordsDB.clear();
+    await filesDB.clear();
+    keywordIndexPromise = null;
+    searchIndexPromise = null;
+    hiddenDocuments.clear();
+    await metaDB.removeItem(HIDDEN_DOCUMENTS_KEY);
     console.log('All documents cleared');
   } catch (error) {
     console.error('Error clearing documents:', error);
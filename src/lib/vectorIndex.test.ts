@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { VectorIndex } from './vectorIndex';
+
+// Deterministic PRNG (mulberry32), as in the benchmark
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function clusteredVectors(count: number, dimensions: number, clusters: number, random: () => number): number[][] {
+  const centers = Array.from({ length: clusters }, () => Array.from({ length: dimensions }, () => random() * 2 - 1));
+  return Array.from({ length: count }, () => {
+    const center = centers[Math.floor(random() * clusters)];
+    return center.map(value => value + (random() * 2 - 1) * 0.6);
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  return dot / (Math.hypot(...a) * Math.hypot(...b));
+}
+
+function bruteForce(vectors: Map<string, number[]>, query: number[], topK: number): string[] {
+  return Array.from(vectors, ([id, vector]) => ({ id, score: cosine(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(hit => hit.id);
+}
+
+const DIMENSIONS = 32;
+
+describe('VectorIndex exact search', () => {
+  it('returns the same hits in the same order as a brute-force scan', () => {
+    const random = createRandom(1);
+    const vectors = new Map(clusteredVectors(300, DIMENSIONS, 10, random).map((vector, i) => [`c${i}`, vector]));
+    const index = new VectorIndex(DIMENSIONS, { initialCapacity: 16 });
+    vectors.forEach((vector, id) => index.add(id, 'doc', vector));
+
+    for (const query of clusteredVectors(10, DIMENSIONS, 10, random)) {
+      const hits = index.search(query, 5);
+      expect(hits.map(hit => hit.id)).toEqual(bruteForce(vectors, query, 5));
+      expect(hits.map(hit => hit.score)).toEqual([...hits.map(hit => hit.score)].sort((a, b) => b - a));
+      expect(hits[0].score).toBeCloseTo(cosine(query, vectors.get(hits[0].id)!), 5);
+    }
+  });
+
+  it('keeps results right after removals move vectors between slots', () => {
+    const random = createRandom(2);
+    const vectors = new Map(clusteredVectors(60, DIMENSIONS, 5, random).map((vector, i) => [`c${i}`, vector]));
+    const index = new VectorIndex(DIMENSIONS);
+    vectors.forEach((vector, id) => index.add(id, Number(id.slice(1)) % 2 ? 'odd' : 'even', vector));
+
+    index.remove('c0');
+    vectors.delete('c0');
+    index.removeDocument('odd');
+    for (const id of vectors.keys()) if (Number(id.slice(1)) % 2) vectors.delete(id);
+
+    expect(index.size).toBe(vectors.size);
+    const query = clusteredVectors(1, DIMENSIONS, 5, random)[0];
+    expect(index.search(query, 10).map(hit => hit.id)).toEqual(bruteForce(vectors, query, 10));
+  });
+
+  it('drops hits at or below the threshold', () => {
+    const index = new VectorIndex(2);
+    index.add('same', 'doc', [1, 0]);
+    index.add('diagonal', 'doc', [1, 1]);
+    index.add('opposite', 'doc', [-1, 0]);
+
+    expect(index.search([1, 0], 10, 0.5).map(hit => hit.id)).toEqual(['same', 'diagonal']);
+  });
+});
+
+describe('VectorIndex IVF search', () => {
+  const build = (count: number, seed: number) => {
+    const random = createRandom(seed);
+    const vectors = new Map(clusteredVectors(count, DIMENSIONS, 20, random).map((vector, i) => [`c${i}`, vector]));
+    const index = new VectorIndex(DIMENSIONS, { ivf: { minSize: 500, nprobe: 6 } });
+    vectors.forEach((vector, id) => index.add(id, 'doc', vector));
+    return { random, vectors, index };
+  };
+
+  it('recalls nearly all of the exact top-K once trained', async () => {
+    const { random, vectors, index } = build(1200, 3);
+    await index.ready();
+
+    let recalled = 0;
+    const queries = clusteredVectors(20, DIMENSIONS, 20, random);
+    for (const query of queries) {
+      const exact = bruteForce(vectors, query, 10);
+      const approximate = new Set(index.search(query, 10).map(hit => hit.id));
+      recalled += exact.filter(id => approximate.has(id)).length / exact.length;
+      expect(index.search(query, 10, -Infinity, true).map(hit => hit.id)).toEqual(exact);
+    }
+    expect(recalled / queries.length).toBeGreaterThan(0.9);
+  });
+
+  it('trains without blocking and places vectors added or removed meanwhile', async () => {
+    const { random, vectors, index } = build(600, 4);
+    const extra = clusteredVectors(100, DIMENSIONS, 20, random);
+    extra.forEach((vector, i) => {
+      index.add(`e${i}`, 'doc', vector);
+      vectors.set(`e${i}`, vector);
+    });
+    index.remove('c1');
+    vectors.delete('c1');
+
+    // Searches keep working while training runs
+    expect(index.search(extra[0], 1)[0].id).toBe('e0');
+    await index.ready();
+
+    expect(index.size).toBe(vectors.size);
+    for (const [id, vector] of vectors) {
+      expect(index.search(vector, 1)[0].id).toBe(id);
+    }
+  });
+
+  it('discards a training run interrupted by clear', async () => {
+    const { index } = build(600, 5);
+    index.clear();
+    await index.ready();
+
+    expect(index.size).toBe(0);
+    index.add('only', 'doc', Array.from({ length: DIMENSIONS }, (_, i) => i + 1));
+    expect(index.search(Array.from({ length: DIMENSIONS }, (_, i) => i + 1), 1)[0].id).toBe('only');
+  });
+});
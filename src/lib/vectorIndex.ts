@@ -0,0 +1,370 @@
+export interface VectorHit {
+  id: string;
+  score: number;
+}
+
+export interface IvfOptions {
+  /** Build the inverted file once the index holds at least this many vectors */
+  minSize: number;
+  /** Number of closest clusters scanned per query */
+  nprobe: number;
+  /** k-means iterations used when (re)training the clusters */
+  iterations: number;
+  /** Vectors sampled to fit the clusters */
+  sampleSize: number;
+}
+
+export interface VectorIndexOptions {
+  initialCapacity?: number;
+  /** Approximate search with an IVF index; omit for exact search only */
+  ivf?: Partial<IvfOptions>;
+}
+
+const DEFAULT_IVF_OPTIONS: IvfOptions = {
+  minSize: 20000,
+  nprobe: 12,
+  iterations: 6,
+  sampleSize: 2048
+};
+
+// Vectors clustered between yields to the event loop while training, about 10 ms of work each
+const TRAINING_BATCH = 64;
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Keeps the best `limit` hits in descending score order
+ */
+class TopK {
+  hits: VectorHit[] = [];
+
+  constructor(private limit: number) {}
+
+  get floor(): number {
+    return this.hits.length < this.limit ? -Infinity : this.hits[this.hits.length - 1].score;
+  }
+
+  push(id: string, score: number): void {
+    if (score <= this.floor) return;
+
+    let position = this.hits.length;
+    while (position > 0 && this.hits[position - 1].score < score) position--;
+    this.hits.splice(position, 0, { id, score });
+    if (this.hits.length > this.limit) this.hits.pop();
+  }
+}
+
+/**
+ * In-memory cosine-similarity index over vectors of one dimensionality.
+ *
+ * Vectors live in a single contiguous Float32Array with their norms precomputed, so a
+ * query is one tight dot-product loop per vector. Removal swaps the last vector into the
+ * freed slot to keep storage dense. With the `ivf` option, large indexes also maintain
+ * k-means clusters and only scan the clusters closest to the query. Clusters are trained in
+ * the background in small batches, so the page stays responsive; until the first training
+ * finishes, searches scan every vector.
+ */
+export class VectorIndex {
+  readonly dimensions: number;
+  private data: Float32Array;
+  private norms: Float32Array;
+  private ids: string[] = [];
+  private documentIds: string[] = [];
+  private slots = new Map<string, number>();
+  private ivfOptions: IvfOptions | null;
+  private centroids: Float32Array | null = null;
+  private centroidNorms: Float32Array | null = null;
+  private lists: Array<Set<string>> = [];
+  private assignments = new Map<string, number>();
+  private trainedSize = 0;
+  private training: Promise<void> | null = null;
+  // Bumped by clear(), so a training run that started before it is discarded
+  private generation = 0;
+  // Vectors added while a training run was under way, assigned again once it finishes
+  private addedDuringTraining = new Set<string>();
+
+  constructor(dimensions: number, options: VectorIndexOptions = {}) {
+    this.dimensions = dimensions;
+    const capacity = options.initialCapacity ?? 1024;
+    this.data = new Float32Array(capacity * dimensions);
+    this.norms = new Float32Array(capacity);
+    this.ivfOptions = options.ivf ? { ...DEFAULT_IVF_OPTIONS, ...options.ivf } : null;
+  }
+
+  get size(): number {
+    return this.ids.length;
+  }
+
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  add(id: string, documentId: string, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    if (this.slots.has(id)) this.remove(id);
+
+    const slot = this.ids.length;
+    this.ensureCapacity(slot + 1);
+
+    const offset = slot * this.dimensions;
+    let sumOfSquares = 0;
+    for (let i = 0; i < this.dimensions; i++) {
+      this.data[offset + i] = vector[i];
+      sumOfSquares += vector[i] * vector[i];
+    }
+    this.norms[slot] = Math.sqrt(sumOfSquares);
+    this.ids.push(id);
+    this.documentIds.push(documentId);
+    this.slots.set(id, slot);
+
+    if (this.training) this.addedDuringTraining.add(id);
+    if (this.centroids) this.assign(id, slot);
+    if (this.needsTraining()) this.startTraining();
+  }
+
+  /**
+   * Resolves once no cluster training is under way
+   */
+  async ready(): Promise<void> {
+    while (this.training) await this.training;
+  }
+
+  remove(id: string): void {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return;
+
+    const lastSlot = this.ids.length - 1;
+    if (slot !== lastSlot) {
+      const lastId = this.ids[lastSlot];
+      this.data.copyWithin(slot * this.dimensions, lastSlot * this.dimensions, (lastSlot + 1) * this.dimensions);
+      this.norms[slot] = this.norms[lastSlot];
+      this.ids[slot] = lastId;
+      this.documentIds[slot] = this.documentIds[lastSlot];
+      this.slots.set(lastId, slot);
+    }
+
+    this.ids.pop();
+    this.documentIds.pop();
+    this.slots.delete(id);
+
+    const list = this.assignments.get(id);
+    if (list !== undefined) {
+      this.lists[list].delete(id);
+      this.assignments.delete(id);
+    }
+  }
+
+  removeDocument(documentId: string): void {
+    const ids = this.ids.filter((_, slot) => this.documentIds[slot] === documentId);
+    for (const id of ids) this.remove(id);
+  }
+
+  clear(): void {
+    this.generation++;
+    this.training = null;
+    this.addedDuringTraining.clear();
+    this.ids = [];
+    this.documentIds = [];
+    this.slots.clear();
+    this.centroids = null;
+    this.centroidNorms = null;
+    this.lists = [];
+    this.assignments.clear();
+    this.trainedSize = 0;
+  }
+
+  /**
+   * Return the topK most similar vectors with cosine similarity above threshold.
+   * Pass exact to scan every vector even when the IVF index is trained.
+   */
+  search(query: ArrayLike<number>, topK: number, threshold: number = -Infinity, exact: boolean = false): VectorHit[] {
+    if (query.length !== this.dimensions || this.size === 0) return [];
+
+    const queryVector = Float32Array.from(query);
+    const queryNorm = Math.sqrt(this.dot(queryVector, queryVector, 0));
+    if (queryNorm === 0) return [];
+
+    const best = new TopK(topK);
+    const score = (slot: number) => {
+      const norm = this.norms[slot];
+      if (norm === 0) return;
+      const similarity = this.dot(queryVector, this.data, slot * this.dimensions) / (queryNorm * norm);
+      if (similarity > threshold) best.push(this.ids[slot], similarity);
+    };
+
+    if (this.centroids && this.ivfOptions && !exact) {
+      for (const list of this.closestLists(queryVector, queryNorm, this.ivfOptions.nprobe)) {
+        for (const id of this.lists[list]) score(this.slots.get(id)!);
+      }
+    } else {
+      for (let slot = 0; slot < this.size; slot++) score(slot);
+    }
+
+    return best.hits;
+  }
+
+  private dot(query: Float32Array, data: Float32Array, offset: number): number {
+    let sum = 0;
+    for (let i = 0; i < this.dimensions; i++) {
+      sum += query[i] * data[offset + i];
+    }
+    return sum;
+  }
+
+  private ensureCapacity(count: number): void {
+    if (count <= this.norms.length) return;
+
+    const capacity = Math.max(count, this.norms.length * 2);
+    const data = new Float32Array(capacity * this.dimensions);
+    data.set(this.data.subarray(0, this.ids.length * this.dimensions));
+    const norms = new Float32Array(capacity);
+    norms.set(this.norms.subarray(0, this.ids.length));
+    this.data = data;
+    this.norms = norms;
+  }
+
+  private closestLists(
+    vector: Float32Array,
+    norm: number,
+    count: number,
+    centroids: Float32Array = this.centroids!,
+    centroidNorms: Float32Array = this.centroidNorms!
+  ): number[] {
+    const best = new TopK(count);
+    for (let list = 0; list < centroidNorms.length; list++) {
+      const centroidNorm = centroidNorms[list] || 1;
+      best.push(String(list), this.dot(vector, centroids, list * this.dimensions) / (norm * centroidNorm));
+    }
+    return best.hits.map(hit => Number(hit.id));
+  }
+
+  private assign(id: string, slot: number): void {
+    const vector = this.data.subarray(slot * this.dimensions, (slot + 1) * this.dimensions);
+    const [list] = this.closestLists(vector, this.norms[slot] || 1, 1);
+    this.lists[list].add(id);
+    this.assignments.set(id, list);
+  }
+
+  private needsTraining(): boolean {
+    if (!this.ivfOptions || this.training) return false;
+    // Clusters drift as the index grows; retrain once it has doubled
+    return this.centroids ? this.size >= this.trainedSize * 2 : this.size >= this.ivfOptions.minSize;
+  }
+
+  private startTraining(): void {
+    const generation = this.generation;
+    const training = this.train(generation)
+      .catch(error => console.error('Vector index training failed:', error))
+      .finally(() => {
+        if (this.generation !== generation) return;
+        this.training = null;
+        this.addedDuringTraining.clear();
+        if (this.needsTraining()) this.startTraining();
+      });
+    this.training = training;
+  }
+
+  /**
+   * Cluster the vectors with spherical k-means (about sqrt(n) clusters). Clusters are
+   * fitted on an evenly spaced sample to bound the cost, then every vector is assigned.
+   * The sample is copied up front and the work yields between batches; vectors added or
+   * removed meanwhile are reconciled when the new clusters are swapped in.
+   */
+  private async train(generation: number): Promise<void> {
+    const options = this.ivfOptions!;
+    const dimensions = this.dimensions;
+    const listCount = Math.max(1, Math.round(Math.sqrt(this.size)));
+    const sampleCount = Math.min(this.size, options.sampleSize);
+
+    // Normalized copies, so the k-means works on directions and survives slots moving
+    const sample = new Float32Array(sampleCount * dimensions);
+    for (let index = 0; index < sampleCount; index++) {
+      const slot = Math.floor(index * this.size / sampleCount);
+      const norm = this.norms[slot] || 1;
+      for (let i = 0; i < dimensions; i++) {
+        sample[index * dimensions + i] = this.data[slot * dimensions + i] / norm;
+      }
+    }
+
+    // Seed centroids with evenly spaced sample vectors
+    const centroids = new Float32Array(listCount * dimensions);
+    for (let list = 0; list < listCount; list++) {
+      const index = Math.floor(list * sampleCount / listCount);
+      centroids.set(sample.subarray(index * dimensions, (index + 1) * dimensions), list * dimensions);
+    }
+    const centroidNorms = new Float32Array(listCount);
+
+    const members = new Int32Array(sampleCount);
+    for (let iteration = 0; iteration < options.iterations; iteration++) {
+      this.updateCentroidNorms(centroids, centroidNorms);
+      for (let index = 0; index < sampleCount; index++) {
+        const vector = sample.subarray(index * dimensions, (index + 1) * dimensions);
+        members[index] = this.closestLists(vector, 1, 1, centroids, centroidNorms)[0];
+        if (index % TRAINING_BATCH === TRAINING_BATCH - 1) {
+          await yieldToEventLoop();
+          if (this.generation !== generation) return;
+        }
+      }
+
+      // Move each centroid to the mean direction of its members
+      centroids.fill(0);
+      for (let index = 0; index < sampleCount; index++) {
+        const offset = members[index] * dimensions;
+        for (let i = 0; i < dimensions; i++) {
+          centroids[offset + i] += sample[index * dimensions + i];
+        }
+      }
+    }
+    this.updateCentroidNorms(centroids, centroidNorms);
+
+    // Assign every vector present when assignment started
+    const lists = Array.from({ length: listCount }, () => new Set<string>());
+    const assignments = new Map<string, number>();
+    const ids = [...this.ids];
+    for (let index = 0; index < ids.length; index++) {
+      const slot = this.slots.get(ids[index]);
+      if (slot !== undefined) {
+        const vector = this.data.subarray(slot * dimensions, (slot + 1) * dimensions);
+        const list = this.closestLists(vector, this.norms[slot] || 1, 1, centroids, centroidNorms)[0];
+        lists[list].add(ids[index]);
+        assignments.set(ids[index], list);
+      }
+      if (index % TRAINING_BATCH === TRAINING_BATCH - 1) {
+        await yieldToEventLoop();
+        if (this.generation !== generation) return;
+      }
+    }
+
+    this.centroids = centroids;
+    this.centroidNorms = centroidNorms;
+    this.lists = lists;
+    this.assignments = assignments;
+
+    // Drop vectors removed meanwhile, and place those added meanwhile under the new clusters
+    for (const [id, list] of assignments) {
+      if (!this.slots.has(id)) {
+        lists[list].delete(id);
+        assignments.delete(id);
+      }
+    }
+    for (const id of this.addedDuringTraining) {
+      const slot = this.slots.get(id);
+      if (slot === undefined) continue;
+      const list = assignments.get(id);
+      if (list !== undefined) lists[list].delete(id);
+      this.assign(id, slot);
+    }
+    for (let slot = 0; slot < this.size; slot++) {
+      if (!assignments.has(this.ids[slot])) this.assign(this.ids[slot], slot);
+    }
+    this.trainedSize = this.size;
+  }
+
+  private updateCentroidNorms(centroids: Float32Array, centroidNorms: Float32Array): void {
+    for (let list = 0; list < centroidNorms.length; list++) {
+      centroidNorms[list] = Math.sqrt(this.dot(centroids.subarray(list * this.dimensions), centroids, list * this.dimensions));
+    }
+  }
+}
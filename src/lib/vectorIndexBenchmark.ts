@@ -0,0 +1,122 @@
+import { VectorIndex } from './vectorIndex';
+
+export interface VectorIndexBenchmarkOptions {
+  count?: number;
+  dimensions?: number;
+  queries?: number;
+  topK?: number;
+  /** Number of synthetic topics the vectors are clustered around */
+  clusters?: number;
+  seed?: number;
+}
+
+export interface VectorIndexBenchmarkResult {
+  count: number;
+  dimensions: number;
+  queries: number;
+  buildMs: number;
+  /** Previous approach: number arrays with both norms recomputed through reduce on every comparison */
+  arrayScanMs: number;
+  flatSearchMs: number;
+  /** Includes waiting for the background cluster training */
+  ivfBuildMs: number;
+  ivfSearchMs: number;
+  /** Share of the exact top-K that the IVF search also returned */
+  ivfRecall: number;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function syntheticVectors(count: number, dimensions: number, clusters: number, random: () => number): number[][] {
+  const centers = Array.from({ length: clusters }, () => Array.from({ length: dimensions }, () => random() * 2 - 1));
+  return Array.from({ length: count }, () => {
+    const center = centers[Math.floor(random() * clusters)];
+    return center.map(value => value + (random() * 2 - 1) * 0.6);
+  });
+}
+
+function legacyCosine(a: number[], b: number[]): number {
+  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
+  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
+  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
+  return magnitudeA === 0 || magnitudeB === 0 ? 0 : dotProduct / (magnitudeA * magnitudeB);
+}
+
+function average(times: number[]): number {
+  return times.reduce((sum, time) => sum + time, 0) / Math.max(1, times.length);
+}
+
+/**
+ * Compare the old array scan, the flat Float32Array index and the IVF index on
+ * synthetic clustered vectors. Run from the browser console in development:
+ * `await window.runVectorIndexBenchmark({ count: 5000 })`.
+ */
+export async function runVectorIndexBenchmark(options: VectorIndexBenchmarkOptions = {}): Promise<VectorIndexBenchmarkResult> {
+  const { count = 3000, dimensions = 3072, queries = 20, topK = 10, clusters = 50, seed = 42 } = options;
+  const random = createRandom(seed);
+  const vectors = syntheticVectors(count, dimensions, clusters, random);
+  const queryVectors = syntheticVectors(queries, dimensions, clusters, random);
+
+  let start = performance.now();
+  const flat = new VectorIndex(dimensions, { initialCapacity: count });
+  vectors.forEach((vector, index) => flat.add(String(index), 'benchmark', vector));
+  const buildMs = performance.now() - start;
+
+  start = performance.now();
+  const ivf = new VectorIndex(dimensions, { initialCapacity: count, ivf: { minSize: Math.min(count, 1000) } });
+  vectors.forEach((vector, index) => ivf.add(String(index), 'benchmark', vector));
+  await ivf.ready();
+  const ivfBuildMs = performance.now() - start;
+
+  const arrayTimes: number[] = [];
+  const flatTimes: number[] = [];
+  const ivfTimes: number[] = [];
+  let recalled = 0;
+
+  for (const query of queryVectors) {
+    start = performance.now();
+    vectors
+      .map((vector, index) => ({ index, score: legacyCosine(query, vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+    arrayTimes.push(performance.now() - start);
+
+    start = performance.now();
+    const exact = flat.search(query, topK);
+    flatTimes.push(performance.now() - start);
+
+    start = performance.now();
+    const approximate = ivf.search(query, topK);
+    ivfTimes.push(performance.now() - start);
+
+    const approximateIds = new Set(approximate.map(hit => hit.id));
+    recalled += exact.filter(hit => approximateIds.has(hit.id)).length / Math.max(1, exact.length);
+  }
+
+  const result: VectorIndexBenchmarkResult = {
+    count,
+    dimensions,
+    queries,
+    buildMs,
+    arrayScanMs: average(arrayTimes),
+    flatSearchMs: average(flatTimes),
+    ivfBuildMs,
+    ivfSearchMs: average(ivfTimes),
+    ivfRecall: recalled / queries
+  };
+
+  console.table(result);
+  return result;
+}